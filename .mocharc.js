@@ -0,0 +1,9 @@
+// The tests are compiled with their own tsconfig, the one of the build only includes the sources
+process.env.TS_NODE_PROJECT = 'test/tsconfig.json';
+
+module.exports = {
+  require: 'ts-node/register',
+  extension: ['ts'],
+  spec: 'test/**/*.test.ts',
+  timeout: 20000,
+};
@@ -19,7 +19,7 @@ export enum BaseTransactionName {
 
 export interface Item {
   itemId: number;
-  itemPrice: number;
+  itemPrice: utils.BigDecimalValue;
   itemName: string;
   itemQuantity: number;
 }
@@ -32,6 +32,8 @@ export interface TrustScoreNodeResult {
 
 type BaseTransactionTime = 'createTime';
 
+export const feeBaseTransactionNames = [BaseTransactionName.FULL_NODE_FEE, BaseTransactionName.NETWORK_FEE, BaseTransactionName.ROLLING_RESERVE];
+
 export interface BaseTransactionData {
   hash: string;
   addressHash: string;
@@ -48,6 +50,30 @@ export interface BaseTransactionData {
   signatureData: SignatureData;
 }
 
+export interface BaseTransactionJSON {
+  hash: string;
+  addressHash: string;
+  amount: string;
+  createTime: number;
+  name: BaseTransactionName;
+  originalAmount?: string;
+  reducedAmount?: string;
+  networkFeeTrustScoreNodeResult?: TrustScoreNodeResult[];
+  encryptedMerchantName?: string;
+  items?: Item[];
+  rollingReserveTrustScoreNodeResult?: TrustScoreNodeResult[];
+  receiverDescription?: string;
+  signatureData?: SignatureData;
+}
+
+export interface BaseTransactionSignatureResult {
+  hash: string;
+  addressHash: string;
+  name: BaseTransactionName;
+  signatureRequired: boolean;
+  valid: boolean;
+}
+
 export class BaseTransactionData {
   constructor(baseTransactionData: BaseTransactionData) {
     Object.assign(this, baseTransactionData);
@@ -84,14 +110,16 @@ export class BaseTransaction {
     name: BaseTransactionName,
     items?: Item[],
     encryptedMerchantName?: string,
-    originalAmount?: BigDecimal
+    originalAmount?: BigDecimal,
+    receiverDescription?: string
   ) {
     this.addressHash = addressHash;
     this.amount = amount.stripTrailingZeros();
     this.createTime = utils.utcNowToSeconds();
     this.name = name;
-    if (name === BaseTransactionName.RECEIVER && originalAmount) {
-      this.originalAmount = originalAmount.stripTrailingZeros();
+    if (name === BaseTransactionName.RECEIVER) {
+      if (originalAmount) this.originalAmount = originalAmount.stripTrailingZeros();
+      this.receiverDescription = receiverDescription;
     }
 
     if (name === BaseTransactionName.PAYMENT_INPUT) {
@@ -124,7 +152,7 @@ export class BaseTransaction {
         let itemsByteArray: number[] = [];
         this.items.forEach(item => {
           let id = Array.from(utils.numberToByteArray(item.itemId, 8));
-          let price = utils.getArrayFromString(utils.removeZerosFromEndOfNumber(item.itemPrice));
+          let price = utils.getArrayFromString(new BigDecimal(item.itemPrice).stripTrailingZeros().toString());
           let name = utils.getArrayFromString(item.itemName);
           let quantity = Array.from(utils.numberToByteArray(item.itemQuantity, 4));
           itemsByteArray = itemsByteArray.concat(id).concat(price).concat(name).concat(quantity);
@@ -142,7 +170,13 @@ export class BaseTransaction {
   }
 
   public static getBaseTransactionFromFeeData(feeData: BaseTransactionData) {
-    let baseTransaction = new BaseTransaction(feeData.addressHash, new BigDecimal(feeData.amount), feeData.name);
+    let baseTransaction = new BaseTransaction(
+      feeData.addressHash,
+      new BigDecimal(feeData.amount),
+      feeData.name,
+      feeData.items,
+      feeData.encryptedMerchantName
+    );
 
     baseTransaction.createTime = feeData.createTime;
     if (feeData.originalAmount) {
@@ -166,6 +200,28 @@ export class BaseTransaction {
     return baseTransaction;
   }
 
+  public static fromJSON(baseTransactionJSON: BaseTransactionJSON) {
+    const { hash, addressHash, amount, createTime, name, items, encryptedMerchantName, originalAmount, reducedAmount } = baseTransactionJSON;
+    let baseTransaction = new BaseTransaction(addressHash, new BigDecimal(amount), name, items, encryptedMerchantName);
+
+    baseTransaction.createTime = createTime;
+    if (originalAmount) baseTransaction.originalAmount = new BigDecimal(originalAmount);
+    if (reducedAmount) baseTransaction.reducedAmount = new BigDecimal(reducedAmount);
+    baseTransaction.networkFeeTrustScoreNodeResult = baseTransactionJSON.networkFeeTrustScoreNodeResult;
+    baseTransaction.rollingReserveTrustScoreNodeResult = baseTransactionJSON.rollingReserveTrustScoreNodeResult;
+    baseTransaction.receiverDescription = baseTransactionJSON.receiverDescription;
+    baseTransaction.signatureData = baseTransactionJSON.signatureData;
+
+    // Fee base transactions are hashed and signed by the nodes, the other ones are hashed locally
+    if (feeBaseTransactionNames.includes(name)) baseTransaction.hash = hash;
+    else {
+      baseTransaction.createBaseTransactionHash();
+      if (baseTransaction.hash !== hash) throw new Error(`Invalid hash ${hash} of base transaction at address ${addressHash}`);
+    }
+
+    return baseTransaction;
+  }
+
   public async sign<T extends IndexedAddress>(transactionHash: string, wallet: IndexedWallet<T>) {
     if (this.isInput()) {
       const messageInBytes = this.getSignatureMessage(transactionHash);
@@ -182,16 +238,56 @@ export class BaseTransaction {
     }
   }
 
+  public verifySignature(transactionHash: string) {
+    if (!this.isInput()) return true;
+    if (!this.signatureData) return false;
+    try {
+      const messageInBytes = this.getSignatureMessage(transactionHash);
+      return cryptoUtils.verifySignature(messageInBytes, this.signatureData, cryptoUtils.getUncompressedPublicKeyHex(this.addressHash));
+    } catch {
+      return false;
+    }
+  }
+
+  public getSignatureResult(transactionHash: string): BaseTransactionSignatureResult {
+    const { hash, addressHash, name } = this;
+    return { hash, addressHash, name, signatureRequired: this.isInput(), valid: this.verifySignature(transactionHash) };
+  }
+
+  public getHash() {
+    return this.hash;
+  }
+
+  public getAddressHash() {
+    return this.addressHash;
+  }
+
+  public getAmount() {
+    return this.amount;
+  }
+
+  public getName() {
+    return this.name;
+  }
+
+  public getCreateTime() {
+    return this.createTime;
+  }
+
   public isInput() {
     return this.amount.isNegative();
   }
 
+  public isFee() {
+    return feeBaseTransactionNames.includes(this.name);
+  }
+
   private getSignatureMessage(transactionHash: string) {
     return utils.hexToBytes(transactionHash);
   }
 
   public toJSON() {
-    let jsonToReturn = {
+    let jsonToReturn: BaseTransactionJSON = {
       hash: this.hash,
       addressHash: this.addressHash,
       amount: this.amount.toString(),
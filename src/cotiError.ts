@@ -19,14 +19,122 @@ export class CotiError extends Error {
   }
 }
 
+export enum NodeErrorCode {
+  UNKNOWN = 'Unknown',
+  INSUFFICIENT_BALANCE = 'InsufficientBalance',
+  INVALID_SIGNATURE = 'InvalidSignature',
+  NODE_UNAVAILABLE = 'NodeUnavailable',
+  TIMEOUT = 'Timeout',
+  VALIDATION_REJECTED = 'ValidationRejected',
+  MALFORMED_RESPONSE = 'MalformedResponse',
+}
+
+export interface NodeErrorOptions extends CotiErrorOptions {
+  code?: NodeErrorCode;
+  status?: number;
+  endpoint?: string;
+  requestBody?: any;
+  retryable?: boolean;
+}
+
 export class NodeError extends CotiError {
+  readonly code: NodeErrorCode;
+  readonly status?: number;
+  readonly endpoint?: string;
+  readonly requestBody?: any;
+  readonly retryable: boolean;
+
+  constructor(message: string, options?: NodeErrorOptions) {
+    super(message, options);
+    const { code, status, endpoint, requestBody, retryable } = options || {};
+    this.code = code || NodeErrorCode.UNKNOWN;
+    this.status = status;
+    this.endpoint = endpoint;
+    this.requestBody = requestBody;
+    this.retryable = !!retryable;
+  }
+}
+
+export class InsufficientBalanceError extends NodeError {
+  constructor(message: string, options?: NodeErrorOptions) {
+    super(message, { ...options, code: NodeErrorCode.INSUFFICIENT_BALANCE, retryable: false });
+  }
+}
+
+export class InvalidSignatureError extends NodeError {
+  constructor(message: string, options?: NodeErrorOptions) {
+    super(message, { ...options, code: NodeErrorCode.INVALID_SIGNATURE, retryable: false });
+  }
+}
+
+export class NodeUnavailableError extends NodeError {
+  constructor(message: string, options?: NodeErrorOptions) {
+    super(message, { ...options, code: NodeErrorCode.NODE_UNAVAILABLE, retryable: true });
+  }
+}
+
+export class NodeTimeoutError extends NodeError {
+  constructor(message: string, options?: NodeErrorOptions) {
+    super(message, { ...options, code: NodeErrorCode.TIMEOUT, retryable: true });
+  }
+}
+
+export class ValidationRejectedError extends NodeError {
+  constructor(message: string, options?: NodeErrorOptions) {
+    super(message, { ...options, code: NodeErrorCode.VALIDATION_REJECTED, retryable: false });
+  }
+}
+
+export class MalformedResponseError extends NodeError {
+  constructor(message: string, options?: NodeErrorOptions) {
+    super(message, { ...options, code: NodeErrorCode.MALFORMED_RESPONSE, retryable: false });
+  }
+}
+
+export class TransactionConfirmationTimeoutError extends CotiError {
+  readonly transactionHash: string;
+
+  constructor(message: string, transactionHash: string, options?: CotiErrorOptions) {
+    super(message, options);
+    this.transactionHash = transactionHash;
+  }
+}
+
+export class TransactionPackageError extends CotiError {
   constructor(message: string, options?: CotiErrorOptions) {
     super(message, options);
   }
 }
 
+export class KeystoreError extends CotiError {
+  constructor(message: string, options?: CotiErrorOptions) {
+    super(message, options);
+  }
+}
+
+export class InvalidKeystorePasswordError extends KeystoreError {
+  constructor(message = 'Invalid keystore password', options?: CotiErrorOptions) {
+    super(message, options);
+  }
+}
+
 export class LedgerError extends CotiError {
   constructor(message: string, options?: CotiErrorOptions) {
     super(message, options);
   }
 }
+
+export class WatchOnlyWalletError extends CotiError {
+  constructor(message = 'Watch-only wallet can not sign messages', options?: CotiErrorOptions) {
+    super(message, options);
+  }
+}
+
+export class InvalidMnemonicError extends CotiError {
+  readonly invalidWords: string[];
+
+  constructor(message: string, invalidWords: string[] = [], options?: CotiErrorOptions) {
+    super(message, options);
+    this.invalidWords = invalidWords;
+  }
+}
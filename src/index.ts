@@ -1,12 +1,30 @@
 import * as utils from './utils/utils';
 import * as cryptoUtils from './utils/cryptoUtils';
 import * as transactionUtils from './utils/transactionUtils';
+import * as transactionPackageUtils from './utils/transactionPackageUtils';
+import * as coinSelectionUtils from './utils/coinSelectionUtils';
+import * as transactionAnalysisUtils from './utils/transactionAnalysisUtils';
+import * as keystoreUtils from './utils/keystoreUtils';
+import * as balanceHistoryUtils from './utils/balanceHistoryUtils';
 
-export { utils, cryptoUtils, transactionUtils };
+export {
+  utils,
+  cryptoUtils,
+  transactionUtils,
+  transactionPackageUtils,
+  coinSelectionUtils,
+  transactionAnalysisUtils,
+  keystoreUtils,
+  balanceHistoryUtils,
+};
 export { BigDecimal } from './utils/utils';
-export { walletUtils } from './utils/walletUtils';
-export { nodeUtils } from './utils/nodeUtils';
+export { walletUtils, AddressDiscoveryCursor, AddressDiscoveryOptions, AddressDiscoveryProgress } from './utils/walletUtils';
+export { nodeUtils, TransactionsHistoryOptions } from './utils/nodeUtils';
+export { networkUtils, Network, NetworkConfig, NetworkTimeouts, NetworkRetryOptions, NodeType } from './utils/networkUtils';
 export * from './nodeClient';
+export * from './nodeTransport';
+export * from './nodeResponse';
+export * from './cotiError';
 export * from './ecKeyPair';
 export * from './ledgerDevice';
 export * from './address';
@@ -14,4 +32,6 @@ export * from './baseTransaction';
 export * from './transaction';
 export * from './signature';
 export * from './wallet';
+export * from './walletStorage';
 export * from './webSocket';
+export * from './nodeSimulator';
@@ -1,12 +1,45 @@
-import { Network } from './utils/utils';
-import { Transaction } from './transaction';
-import { nodeUtils } from './utils/nodeUtils';
+import { BigDecimalValue, Network, parseAmount } from './utils/utils';
+import { Transaction, TransactionData } from './transaction';
+import { IndexedWallet } from './wallet';
+import { IndexedAddress } from './address';
+import { PrivateKey } from './ecKeyPair';
+import { estimateFees, FeeEstimate } from './utils/transactionUtils';
+import { nodeUtils, TransactionsHistoryOptions } from './utils/nodeUtils';
+import { networkUtils } from './utils/networkUtils';
+import { NodeTransport } from './nodeTransport';
+import { WebSocket } from './webSocket';
+import { CotiError, TransactionConfirmationTimeoutError } from './cotiError';
+
+export interface WaitForConfirmationOptions {
+  timeout?: number;
+  pollInterval?: number;
+  connectedPollInterval?: number;
+  signal?: AbortSignal;
+  webSocket?: WebSocket;
+}
+
+export interface EstimateFeesOptions<T extends IndexedAddress> {
+  feeIncluded?: boolean;
+  userPrivateKey?: string;
+  wallet?: IndexedWallet<T>;
+  cacheTtl?: number;
+}
+
+const defaultConfirmationTimeout = 120000;
+const defaultConfirmationPollInterval = 5000;
+const defaultConnectedConfirmationPollInterval = 30000;
+const defaultFeeEstimateCacheTtl = 30000;
 
 export class NodeClient {
   readonly network: Network;
+  private readonly feeEstimateCache = new Map<string, { expiry: number; feeEstimate: Promise<FeeEstimate> }>();
 
-  constructor(network: Network = 'mainnet') {
-    this.network = network;
+  constructor(network: Network = 'mainnet', transport?: NodeTransport) {
+    this.network = networkUtils.withTransport(network, transport);
+  }
+
+  getNetworkConfig() {
+    return networkUtils.getNetworkConfig(this.network);
   }
 
   async sendTransaction(transaction: Transaction) {
@@ -17,8 +50,96 @@ export class NodeClient {
     return await nodeUtils.getTransaction(transactionHash, this.network);
   }
 
-  async getTransactionsHistory(addresses: string[]) {
-    return await nodeUtils.getTransactionsHistory(addresses, this.network);
+  waitForConfirmation(transactionHash: string, options: WaitForConfirmationOptions = {}) {
+    const {
+      timeout = defaultConfirmationTimeout,
+      pollInterval = defaultConfirmationPollInterval,
+      connectedPollInterval = defaultConnectedConfirmationPollInterval,
+      signal,
+      webSocket,
+    } = options;
+    const wallet = webSocket && webSocket.getWallet();
+
+    return new Promise<TransactionData>((resolve, reject) => {
+      let finished = false;
+      let pollTimeout: ReturnType<typeof setTimeout> | undefined;
+      let confirmationTimeout: ReturnType<typeof setTimeout> | undefined;
+      let lastPollError: Error | undefined;
+
+      function finish(error?: Error, transaction?: TransactionData) {
+        if (finished) return;
+        finished = true;
+        if (confirmationTimeout) clearTimeout(confirmationTimeout);
+        if (pollTimeout) clearTimeout(pollTimeout);
+        if (wallet) wallet.removeListener('receivedTransaction', onReceivedTransaction);
+        if (signal) signal.removeEventListener('abort', onAbort);
+        error ? reject(error) : resolve(transaction);
+      }
+
+      function onReceivedTransaction(transaction: TransactionData) {
+        if (transaction.hash === transactionHash && transaction.status === 'confirmed') finish(undefined, transaction);
+      }
+
+      function onAbort() {
+        finish(new CotiError(`Waiting for confirmation of transaction ${transactionHash} was aborted`));
+      }
+
+      // The socket only reports transactions of its wallet addresses, so the node is still polled at a lower rate while it is connected
+      const poll = async () => {
+        try {
+          const transaction = await this.getTransaction(transactionHash);
+          if (transaction.status === 'confirmed') return finish(undefined, transaction);
+        } catch (error) {
+          lastPollError = error;
+        }
+        if (!finished) pollTimeout = setTimeout(poll, webSocket && webSocket.isConnected() ? connectedPollInterval : pollInterval);
+      };
+
+      confirmationTimeout = setTimeout(() => {
+        finish(
+          new TransactionConfirmationTimeoutError(`Transaction ${transactionHash} was not confirmed within ${timeout} ms`, transactionHash, {
+            cause: lastPollError,
+          })
+        );
+      }, timeout);
+
+      if (signal) {
+        if (signal.aborted) return onAbort();
+        signal.addEventListener('abort', onAbort);
+      }
+      if (wallet) wallet.on('receivedTransaction', onReceivedTransaction);
+      poll();
+    });
+  }
+
+  async estimateFees<T extends IndexedAddress>(amount: BigDecimalValue, options: EstimateFeesOptions<T>) {
+    const { feeIncluded = false, userPrivateKey, wallet, cacheTtl = defaultFeeEstimateCacheTtl } = options;
+    const userHash = wallet ? wallet.getPublicHash() : userPrivateKey && new PrivateKey(userPrivateKey).getPublicKey();
+    const cacheKey = `${userHash} ${parseAmount(amount).toString()} ${feeIncluded}`;
+    const now = Date.now();
+    this.feeEstimateCache.forEach(({ expiry }, key) => {
+      if (expiry <= now) this.feeEstimateCache.delete(key);
+    });
+
+    const cachedFeeEstimate = this.feeEstimateCache.get(cacheKey);
+    if (cachedFeeEstimate) return await cachedFeeEstimate.feeEstimate;
+
+    const feeEstimate = estimateFees({ amount, userPrivateKey, wallet, feeIncluded, network: this.network });
+    if (cacheTtl > 0) this.feeEstimateCache.set(cacheKey, { expiry: now + cacheTtl, feeEstimate });
+    try {
+      return await feeEstimate;
+    } catch (error) {
+      this.feeEstimateCache.delete(cacheKey);
+      throw error;
+    }
+  }
+
+  async getTransactionsHistory(addresses: string[], options?: TransactionsHistoryOptions) {
+    return await nodeUtils.getTransactionsHistory(addresses, this.network, options);
+  }
+
+  streamTransactionsHistory(addresses: string[], options?: TransactionsHistoryOptions) {
+    return nodeUtils.streamTransactionsHistory(addresses, this.network, options);
   }
 
   async checkBalances(addresses: string[]) {
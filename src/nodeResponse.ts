@@ -0,0 +1,33 @@
+import { SignatureData } from './signature';
+
+export interface AddressBalance {
+  addressBalance: number | string;
+  addressPreBalance: number | string;
+}
+
+export interface AddressBalanceMap {
+  [addressHex: string]: AddressBalance;
+}
+
+export interface AddressExistenceMap {
+  [addressHex: string]: boolean;
+}
+
+export interface SendTransactionResponse {
+  status: string;
+  message?: string;
+}
+
+export interface UserTrustScoreResponse {
+  userHash: string;
+  trustScore: number;
+  userType?: string;
+}
+
+export interface TransactionTrustScoreData {
+  userHash: string;
+  transactionHash: string;
+  trustScore: number;
+  trustScoreNodeHash: string;
+  trustScoreNodeSignature: SignatureData;
+}
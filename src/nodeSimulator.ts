@@ -0,0 +1,497 @@
+import { keccak256 } from 'js-sha3';
+import { BaseTransaction, BaseTransactionData, BaseTransactionName, TrustScoreNodeResult, feeBaseTransactionNames } from './baseTransaction';
+import { Transaction, TransactionData, TransactionSignatureReport, TransactionType } from './transaction';
+import { FullNodeFeeSignature } from './signature';
+import { HandlerTransport, NodeTransportRequest, NodeTransportResponse } from './nodeTransport';
+import { NetworkConfig, networkUtils } from './utils/networkUtils';
+import { SocketClient, SocketMessage, SocketSubscription } from './webSocket';
+import { AddressBalanceMap, AddressExistenceMap, TransactionTrustScoreData } from './nodeResponse';
+import { BigDecimal, BigDecimalValue } from './utils/utils';
+import * as utils from './utils/utils';
+import * as cryptoUtils from './utils/cryptoUtils';
+
+type KeyPair = cryptoUtils.KeyPair;
+
+export interface NodeSimulatorOptions {
+  name?: string;
+  fullNodeUrl?: string;
+  trustScoreNodeUrl?: string;
+  apiUrl?: string;
+  privateKey?: string;
+  fullNodeFeePercentage?: BigDecimalValue;
+  minimumFullNodeFee?: BigDecimalValue;
+  maximumFullNodeFee?: BigDecimalValue;
+  networkFee?: BigDecimalValue;
+  rollingReservePercentage?: BigDecimalValue;
+  userTrustScore?: number;
+  autoConfirm?: boolean;
+  confirmationDelay?: number;
+}
+
+interface AddressLedgerEntry {
+  balance: BigDecimal;
+  preBalance: BigDecimal;
+}
+
+type SocketCallback = (message: SocketMessage) => void;
+
+type RequestHandler = (data: any) => any;
+
+class SimulatorRequestError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+class SimulatorSocketClient implements SocketClient {
+  private readonly simulator: NodeSimulator;
+  private readonly subscriptions = new Set<SocketSubscription>();
+
+  constructor(simulator: NodeSimulator) {
+    this.simulator = simulator;
+  }
+
+  public connect(headers: any, connectCallback: () => void) {
+    Promise.resolve().then(connectCallback);
+  }
+
+  public subscribe(destination: string, callback: SocketCallback) {
+    const simulatorSubscription = this.simulator.subscribe(destination, callback);
+    const subscription = {
+      unsubscribe: () => {
+        simulatorSubscription.unsubscribe();
+        this.subscriptions.delete(subscription);
+      },
+    };
+    this.subscriptions.add(subscription);
+    return subscription;
+  }
+
+  public disconnect() {
+    this.subscriptions.forEach(subscription => subscription.unsubscribe());
+  }
+}
+
+export class NodeSimulator {
+  private readonly name: string;
+  private readonly fullNodeUrl: string;
+  private readonly trustScoreNodeUrl: string;
+  private readonly apiUrl: string;
+  private readonly keyPair: KeyPair;
+  private readonly publicHash: string;
+  private readonly feeAddress: string;
+  private readonly fullNodeFeePercentage: BigDecimal;
+  private readonly minimumFullNodeFee: BigDecimal;
+  private readonly maximumFullNodeFee: BigDecimal;
+  private readonly networkFee: BigDecimal;
+  private readonly rollingReservePercentage: BigDecimal;
+  private readonly userTrustScore: number;
+  private readonly autoConfirm: boolean;
+  private readonly confirmationDelay: number;
+  private readonly transport: HandlerTransport;
+  private readonly ledger = new Map<string, AddressLedgerEntry>();
+  private readonly registeredAddresses = new Set<string>();
+  private readonly feeDataMap = new Map<string, BaseTransactionData>();
+  private readonly trustScoreDataMap = new Map<string, TransactionTrustScoreData>();
+  private readonly transactionMap = new Map<string, TransactionData>();
+  private readonly topicSubscriptions = new Map<string, Set<SocketCallback>>();
+  private readonly requestHandlers: { [route: string]: RequestHandler };
+  private lastTransactionHash?: string;
+
+  constructor(options: NodeSimulatorOptions = {}) {
+    this.name = options.name || 'simulator';
+    this.fullNodeUrl = options.fullNodeUrl || `http://${this.name}-fullnode`;
+    this.trustScoreNodeUrl = options.trustScoreNodeUrl || `http://${this.name}-trustscore`;
+    this.apiUrl = options.apiUrl || `http://${this.name}-api`;
+    this.keyPair = options.privateKey ? cryptoUtils.getKeyPairFromPrivate(options.privateKey) : cryptoUtils.generateKeyPair();
+    this.publicHash = cryptoUtils.getPublicKeyByKeyPair(this.keyPair);
+    this.feeAddress = cryptoUtils.getAddressHexByKeyPair(this.keyPair);
+    this.fullNodeFeePercentage = new BigDecimal(options.fullNodeFeePercentage || '0.1');
+    this.minimumFullNodeFee = new BigDecimal(options.minimumFullNodeFee || '0.01');
+    this.maximumFullNodeFee = new BigDecimal(options.maximumFullNodeFee || '25');
+    this.networkFee = new BigDecimal(options.networkFee || '0.01');
+    this.rollingReservePercentage = new BigDecimal(options.rollingReservePercentage || '10');
+    this.userTrustScore = options.userTrustScore !== undefined ? options.userTrustScore : 50;
+    this.autoConfirm = options.autoConfirm !== undefined ? options.autoConfirm : true;
+    this.confirmationDelay = options.confirmationDelay || 0;
+    this.transport = new HandlerTransport(request => this.handleRequest(request));
+    this.requestHandlers = {
+      [`${this.fullNodeUrl} put /address`]: data => this.registerAddress(data),
+      [`${this.fullNodeUrl} post /address`]: data => this.checkAddressesExist(data),
+      [`${this.fullNodeUrl} post /balance`]: data => this.checkBalances(data),
+      [`${this.fullNodeUrl} put /fee`]: data => this.createFullNodeFee(data),
+      [`${this.fullNodeUrl} post /transaction`]: data => this.getTransaction(data),
+      [`${this.fullNodeUrl} put /transaction`]: data => this.addTransaction(data),
+      [`${this.fullNodeUrl} post /transaction/addressTransactions/batch`]: data => this.getTransactionsHistory(data),
+      [`${this.trustScoreNodeUrl} post /usertrustscore`]: data => this.getUserTrustScore(data),
+      [`${this.trustScoreNodeUrl} put /networkFee`]: data => this.createNetworkFee(data),
+      [`${this.trustScoreNodeUrl} post /networkFee`]: data => this.validateNetworkFee(data),
+      [`${this.trustScoreNodeUrl} post /rollingReserve`]: data => this.createRollingReserve(data),
+      [`${this.trustScoreNodeUrl} post /rollingReserveValidation`]: data => this.validateRollingReserve(data),
+      [`${this.trustScoreNodeUrl} post /transactiontrustscore`]: data => this.getTransactionTrustScore(data),
+    };
+  }
+
+  public getNetworkConfig(): NetworkConfig {
+    return {
+      name: this.name,
+      fullNode: this.fullNodeUrl,
+      trustScoreNode: this.trustScoreNodeUrl,
+      api: this.apiUrl,
+      retry: { retries: 0 },
+      transport: this.transport,
+      socketClientFactory: () => this.createSocketClient(),
+    };
+  }
+
+  public register() {
+    networkUtils.registerNetwork(this.getNetworkConfig());
+    return this.name;
+  }
+
+  public getTransport() {
+    return this.transport;
+  }
+
+  public getFeeAddress() {
+    return this.feeAddress;
+  }
+
+  public getPublicHash() {
+    return this.publicHash;
+  }
+
+  public setBalance(addressHex: string, balance: BigDecimalValue, preBalance: BigDecimalValue = balance) {
+    if (!cryptoUtils.verifyAddressStructure(addressHex)) throw new Error(`Invalid address: ${addressHex}`);
+    this.ledger.set(addressHex, { balance: new BigDecimal(balance), preBalance: new BigDecimal(preBalance) });
+    this.publishBalance(addressHex);
+  }
+
+  public getBalance(addressHex: string) {
+    const { balance, preBalance } = this.getLedgerEntry(addressHex);
+    return { balance, preBalance };
+  }
+
+  public getTransactionData(transactionHash: string) {
+    return this.transactionMap.get(transactionHash);
+  }
+
+  public confirmTransaction(transactionHash: string) {
+    const transactionData = this.transactionMap.get(transactionHash);
+    if (!transactionData) throw new Error(`Transaction ${transactionHash} not found`);
+    if (transactionData.transactionConsensusUpdateTime) return;
+
+    transactionData.transactionConsensusUpdateTime = utils.utcNowToSeconds();
+    transactionData.setStatus();
+    transactionData.baseTransactions.forEach(({ addressHash, amount }) => {
+      const ledgerEntry = this.getLedgerEntry(addressHash);
+      ledgerEntry.balance = ledgerEntry.balance.add(new BigDecimal(amount));
+    });
+    this.publishTransaction(transactionData);
+  }
+
+  public createSocketClient(): SocketClient {
+    return new SimulatorSocketClient(this);
+  }
+
+  public subscribe(destination: string, callback: SocketCallback): SocketSubscription {
+    let callbacks = this.topicSubscriptions.get(destination);
+    if (!callbacks) {
+      callbacks = new Set();
+      this.topicSubscriptions.set(destination, callbacks);
+    }
+    callbacks.add(callback);
+    return { unsubscribe: () => callbacks!.delete(callback) };
+  }
+
+  public async handleRequest(request: NodeTransportRequest): Promise<NodeTransportResponse> {
+    const { url, method } = request;
+    const baseUrl = [this.fullNodeUrl, this.trustScoreNodeUrl, this.apiUrl].find(nodeUrl => url.startsWith(nodeUrl));
+    const handler = baseUrl && this.requestHandlers[`${baseUrl} ${method} ${url.substring(baseUrl.length)}`];
+    if (!handler) return { status: 404, data: { status: 'Error', message: `Unknown request ${method} ${url}` } };
+    try {
+      const data = request.data === undefined ? undefined : JSON.parse(JSON.stringify(request.data));
+      return { status: 200, data: JSON.parse(JSON.stringify(handler(data))) };
+    } catch (error) {
+      const status = error instanceof SimulatorRequestError ? error.status : 500;
+      return { status, data: { status: 'Error', message: error.message } };
+    }
+  }
+
+  private registerAddress({ address }: { address: string }) {
+    if (!cryptoUtils.verifyAddressStructure(address)) throw new SimulatorRequestError(`Invalid address ${address}`);
+    this.registeredAddresses.add(address);
+    this.publish(`/topic/address/${address}`, { addressHash: address });
+    return { status: 'Success', address: { addressHash: address } };
+  }
+
+  private checkAddressesExist({ addresses }: { addresses: string[] }) {
+    const addressExistenceMap: AddressExistenceMap = {};
+    addresses.forEach(address => {
+      addressExistenceMap[address] = this.registeredAddresses.has(address) || this.ledger.has(address);
+    });
+    return { status: 'Success', addresses: addressExistenceMap };
+  }
+
+  private checkBalances({ addresses }: { addresses: string[] }) {
+    const addressesBalance: AddressBalanceMap = {};
+    addresses.forEach(address => {
+      const { balance, preBalance } = this.getLedgerEntry(address);
+      addressesBalance[address] = { addressBalance: balance.toString(), addressPreBalance: preBalance.toString() };
+    });
+    return { status: 'Success', addressesBalance };
+  }
+
+  private createFullNodeFee({ originalAmount, userHash, userSignature, feeIncluded }: any) {
+    const amount = new BigDecimal(`${originalAmount}`);
+    if (amount.compareTo(new BigDecimal('0')) <= 0) throw new SimulatorRequestError(`Invalid amount ${originalAmount}`);
+    const messageInBytes = new FullNodeFeeSignature(originalAmount).createBasicSignatureHash();
+    if (!this.verifyUserSignature(messageInBytes, userSignature, userHash)) throw new SimulatorRequestError(`Invalid fee request signature`, 401);
+
+    let fee = new BigDecimal(amount.multiply(this.fullNodeFeePercentage).divide(new BigDecimal('100')).toDecimalPlaces(8));
+    if (fee.compareTo(this.minimumFullNodeFee) < 0) fee = this.minimumFullNodeFee;
+    if (fee.compareTo(this.maximumFullNodeFee) > 0) fee = this.maximumFullNodeFee;
+    if (feeIncluded && amount.compareTo(fee.add(this.networkFee)) <= 0)
+      throw new SimulatorRequestError(`Amount ${originalAmount} is lower than the fees`);
+
+    return { status: 'Success', fullNodeFee: this.createFeeData(fee, BaseTransactionName.FULL_NODE_FEE, amount) };
+  }
+
+  private createNetworkFee({ fullNodeFeeData }: { fullNodeFeeData: BaseTransactionData }) {
+    const issuedFullNodeFee = this.getIssuedFeeData(fullNodeFeeData, BaseTransactionName.FULL_NODE_FEE);
+    const networkFeeData = this.createFeeData(this.networkFee, BaseTransactionName.NETWORK_FEE, new BigDecimal(issuedFullNodeFee.originalAmount!));
+    networkFeeData.networkFeeTrustScoreNodeResult = [];
+    return { status: 'Success', networkFeeData };
+  }
+
+  private validateNetworkFee({ fullNodeFeeData, networkFeeData }: { fullNodeFeeData: BaseTransactionData; networkFeeData: BaseTransactionData }) {
+    this.getIssuedFeeData(fullNodeFeeData, BaseTransactionName.FULL_NODE_FEE);
+    const issuedNetworkFee = this.getIssuedFeeData(networkFeeData, BaseTransactionName.NETWORK_FEE);
+    const trustScoreNodeResult: TrustScoreNodeResult = {
+      trustScoreNodeHash: this.publicHash,
+      trustScoreNodeSignature: this.sign(utils.hexToBytes(issuedNetworkFee.hash)),
+      valid: true,
+    };
+    issuedNetworkFee.networkFeeTrustScoreNodeResult = [...(issuedNetworkFee.networkFeeTrustScoreNodeResult || []), trustScoreNodeResult];
+    return { status: 'Success', networkFeeData: issuedNetworkFee };
+  }
+
+  private createRollingReserve({ originalAmount, networkFeeData }: { originalAmount: BigDecimalValue; networkFeeData: BaseTransactionData }) {
+    this.getIssuedFeeData(networkFeeData, BaseTransactionName.NETWORK_FEE);
+    const amount = new BigDecimal(`${originalAmount}`);
+    const rollingReserve = new BigDecimal(amount.multiply(this.rollingReservePercentage).divide(new BigDecimal('100')).toDecimalPlaces(8));
+    if (rollingReserve.compareTo(new BigDecimal('0')) <= 0)
+      throw new SimulatorRequestError(`Amount ${originalAmount} is too low for rolling reserve`);
+    const rollingReserveData = this.createFeeData(rollingReserve, BaseTransactionName.ROLLING_RESERVE, amount);
+    rollingReserveData.rollingReserveTrustScoreNodeResult = [];
+    return { status: 'Success', rollingReserveData };
+  }
+
+  private validateRollingReserve({
+    networkFeeData,
+    rollingReserveData,
+  }: {
+    networkFeeData: BaseTransactionData;
+    rollingReserveData: BaseTransactionData;
+  }) {
+    this.getIssuedFeeData(networkFeeData, BaseTransactionName.NETWORK_FEE);
+    const issuedRollingReserve = this.getIssuedFeeData(rollingReserveData, BaseTransactionName.ROLLING_RESERVE);
+    const trustScoreNodeResult: TrustScoreNodeResult = {
+      trustScoreNodeHash: this.publicHash,
+      trustScoreNodeSignature: this.sign(utils.hexToBytes(issuedRollingReserve.hash)),
+      valid: true,
+    };
+    issuedRollingReserve.rollingReserveTrustScoreNodeResult = [
+      ...(issuedRollingReserve.rollingReserveTrustScoreNodeResult || []),
+      trustScoreNodeResult,
+    ];
+    return { status: 'Success', rollingReserveData: issuedRollingReserve };
+  }
+
+  private getUserTrustScore({ userHash }: { userHash: string }) {
+    return { status: 'Success', userHash, trustScore: this.userTrustScore };
+  }
+
+  private getTransactionTrustScore({ userHash, transactionHash, userSignature }: any) {
+    if (!this.verifyUserSignature(utils.hexToBytes(transactionHash), userSignature, userHash))
+      throw new SimulatorRequestError(`Invalid transaction trust score request signature`, 401);
+    const transactionTrustScoreData: TransactionTrustScoreData = {
+      userHash,
+      transactionHash,
+      trustScore: this.userTrustScore,
+      trustScoreNodeHash: this.publicHash,
+      trustScoreNodeSignature: this.sign(utils.hexToBytes(transactionHash)),
+    };
+    this.trustScoreDataMap.set(transactionHash, transactionTrustScoreData);
+    return { status: 'Success', transactionTrustScoreData };
+  }
+
+  private getTransaction({ transactionHash }: { transactionHash: string }) {
+    const transactionData = this.transactionMap.get(transactionHash);
+    if (!transactionData) throw new SimulatorRequestError(`Transaction ${transactionHash} not found`, 404);
+    return { status: 'Success', transactionData };
+  }
+
+  private getTransactionsHistory({ addresses }: { addresses: string[] }) {
+    const addressSet = new Set(addresses);
+    return [...this.transactionMap.values()].filter(transactionData =>
+      transactionData.baseTransactions.some(baseTransaction => addressSet.has(baseTransaction.addressHash))
+    );
+  }
+
+  private addTransaction(transaction: any) {
+    this.validateTransaction(transaction);
+
+    const attachmentTime = utils.utcNowToSeconds();
+    const transactionJson: any = {
+      hash: transaction.hash,
+      baseTransactions: transaction.baseTransactions,
+      createTime: transaction.createTime,
+      attachmentTime,
+      childrenTransactionHashes: [],
+      leftParentHash: this.lastTransactionHash,
+      rightParentHash: this.lastTransactionHash,
+      transactionDescription: transaction.transactionDescription,
+      trustChainTrustScore: this.userTrustScore,
+      type: transaction.type,
+      senderHash: transaction.senderHash,
+      senderSignature: transaction.senderSignature,
+      trustScoreResults: transaction.trustScoreResults,
+      isValid: true,
+    };
+    const transactionData = new TransactionData(transactionJson);
+    transactionData.setStatus();
+    this.transactionMap.set(transactionData.hash, transactionData);
+    this.lastTransactionHash = transactionData.hash;
+
+    transactionData.baseTransactions.forEach(({ addressHash, amount }) => {
+      const ledgerEntry = this.getLedgerEntry(addressHash);
+      ledgerEntry.preBalance = ledgerEntry.preBalance.add(new BigDecimal(amount));
+      this.registeredAddresses.add(addressHash);
+    });
+    this.publishTransaction(transactionData);
+
+    if (this.autoConfirm) setTimeout(() => this.confirmTransaction(transactionData.hash), this.confirmationDelay);
+
+    return { status: 'Success', message: 'Transaction Added!' };
+  }
+
+  private validateTransaction(transaction: any) {
+    const { hash, baseTransactions, type } = transaction;
+    if (!hash || !Array.isArray(baseTransactions) || !baseTransactions.length) throw new SimulatorRequestError(`Invalid transaction`);
+    if (this.transactionMap.has(hash)) throw new SimulatorRequestError(`Transaction ${hash} already exists`);
+    if (!Object.values(TransactionType).includes(type)) throw new SimulatorRequestError(`Invalid transaction type ${type}`);
+
+    const baseTransactionHashes = baseTransactions.reduce(
+      (hashArray: number[], { hash }: BaseTransactionData) => hashArray.concat(utils.hexToArray(hash)),
+      []
+    );
+    if (utils.byteArrayToHexString(new Uint8Array(keccak256.update(baseTransactionHashes).array())) !== hash)
+      throw new SimulatorRequestError(`Invalid transaction hash ${hash}`);
+
+    let signatureReport: TransactionSignatureReport;
+    try {
+      signatureReport = Transaction.fromJSON(transaction).verifySignatures();
+    } catch (error) {
+      throw new SimulatorRequestError(error.message);
+    }
+    if (!signatureReport.senderSignatureValid) throw new SimulatorRequestError(`Invalid sender signature of transaction ${hash}`, 401);
+    const invalidSignatureResult = signatureReport.baseTransactions.find(baseTransactionResult => !baseTransactionResult.valid);
+    if (invalidSignatureResult) throw new SimulatorRequestError(`Invalid signature of input base transaction ${invalidSignatureResult.hash}`, 401);
+
+    let totalAmount = new BigDecimal('0');
+    const spentAmountMap = new Map<string, BigDecimal>();
+    baseTransactions.forEach((baseTransaction: BaseTransactionData) => {
+      const { addressHash, name } = baseTransaction;
+      const amount = new BigDecimal(baseTransaction.amount);
+      if (!cryptoUtils.verifyAddressStructure(addressHash)) throw new SimulatorRequestError(`Invalid address ${addressHash}`);
+      totalAmount = totalAmount.add(amount);
+      if (name === BaseTransactionName.INPUT || name === BaseTransactionName.PAYMENT_INPUT) {
+        if (!amount.isNegative()) throw new SimulatorRequestError(`Input base transaction amount should be negative`);
+        spentAmountMap.set(addressHash, (spentAmountMap.get(addressHash) || new BigDecimal('0')).subtract(amount));
+      } else if (feeBaseTransactionNames.includes(name)) {
+        const issuedFeeData = this.getIssuedFeeData(baseTransaction, name);
+        if (amount.compareTo(new BigDecimal(issuedFeeData.amount)) !== 0)
+          throw new SimulatorRequestError(`Fee amount was changed for ${issuedFeeData.hash}`);
+      } else if (name === BaseTransactionName.RECEIVER) {
+        if (amount.compareTo(new BigDecimal('0')) <= 0) throw new SimulatorRequestError(`Receiver base transaction amount should be positive`);
+      } else {
+        throw new SimulatorRequestError(`Unsupported base transaction ${name}`);
+      }
+    });
+    if (!totalAmount.isZero()) throw new SimulatorRequestError(`Transaction amounts sum to ${totalAmount} instead of 0`);
+
+    spentAmountMap.forEach((spentAmount, addressHash) => {
+      const { balance, preBalance } = this.getLedgerEntry(addressHash);
+      const addressMaxAmount = preBalance.compareTo(balance) < 0 ? preBalance : balance;
+      if (addressMaxAmount.compareTo(spentAmount) < 0) throw new SimulatorRequestError(`Insufficient balance in address ${addressHash}`);
+    });
+
+    if (!this.trustScoreDataMap.has(hash)) throw new SimulatorRequestError(`Missing trust score for transaction ${hash}`);
+  }
+
+  private createFeeData(amount: BigDecimal, name: BaseTransactionName, originalAmount: BigDecimal) {
+    const baseTransactionData = new BaseTransaction(this.feeAddress, amount, name).toJSON();
+    const feeDataJson: any = {
+      ...baseTransactionData,
+      originalAmount: originalAmount.stripTrailingZeros().toString(),
+      signatureData: this.sign(utils.hexToBytes(baseTransactionData.hash)),
+    };
+    const feeData = new BaseTransactionData(feeDataJson);
+    this.feeDataMap.set(feeData.hash, feeData);
+    return feeData;
+  }
+
+  private getIssuedFeeData(feeData: BaseTransactionData, name: BaseTransactionName) {
+    const issuedFeeData = feeData && this.feeDataMap.get(feeData.hash);
+    if (!issuedFeeData || issuedFeeData.name !== name || issuedFeeData.addressHash !== feeData.addressHash)
+      throw new SimulatorRequestError(`Unknown ${name} fee data`);
+    return issuedFeeData;
+  }
+
+  private getLedgerEntry(addressHex: string) {
+    let ledgerEntry = this.ledger.get(addressHex);
+    if (!ledgerEntry) {
+      ledgerEntry = { balance: new BigDecimal('0'), preBalance: new BigDecimal('0') };
+      this.ledger.set(addressHex, ledgerEntry);
+    }
+    return ledgerEntry;
+  }
+
+  private verifyUserSignature(messageInBytes: Uint8Array, userSignature: any, userHash: string) {
+    if (!userSignature || !userHash) return false;
+    return cryptoUtils.verifySignature(messageInBytes, userSignature, cryptoUtils.getUncompressedPublicKeyHex(userHash));
+  }
+
+  private sign(messageInBytes: Uint8Array) {
+    return cryptoUtils.signByteArrayMessage(messageInBytes, this.keyPair);
+  }
+
+  private publishBalance(addressHex: string) {
+    const { balance, preBalance } = this.getLedgerEntry(addressHex);
+    this.publish(`/topic/${addressHex}`, {
+      message: 'Balance Updated!',
+      addressHash: addressHex,
+      balance: balance.toString(),
+      preBalance: preBalance.toString(),
+    });
+  }
+
+  private publishTransaction(transactionData: TransactionData) {
+    const addressHexes = new Set(transactionData.baseTransactions.map(baseTransaction => baseTransaction.addressHash));
+    addressHexes.forEach(addressHex => {
+      this.publish(`/topic/addressTransactions/${addressHex}`, { transactionData });
+      this.publishBalance(addressHex);
+    });
+  }
+
+  private publish(destination: string, payload: any) {
+    const callbacks = this.topicSubscriptions.get(destination);
+    if (!callbacks) return;
+    const body = JSON.stringify(payload);
+    callbacks.forEach(callback => callback({ body }));
+  }
+}
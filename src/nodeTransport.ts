@@ -0,0 +1,144 @@
+import axios, { AxiosInstance } from 'axios';
+import { StreamChunk, toChunks } from './utils/streamUtils';
+
+export type NodeTransportMethod = 'get' | 'post' | 'put';
+
+export interface NodeTransportRequest {
+  method: NodeTransportMethod;
+  url: string;
+  data?: any;
+  headers?: { [header: string]: string };
+  timeout?: number;
+}
+
+export interface NodeTransportResponse<T = any> {
+  status: number;
+  data: T;
+  headers?: { [header: string]: string };
+}
+
+export interface NodeTransportStreamResponse {
+  status: number;
+  body: AsyncIterable<StreamChunk>;
+  headers?: { [header: string]: string };
+}
+
+export type NodeRequestInterceptor = (request: NodeTransportRequest) => NodeTransportRequest | Promise<NodeTransportRequest>;
+
+// Streamed responses of transports with streaming support (e.g. AxiosTransport) do not go through these interceptors
+// since their data is not read yet, use a NodeStreamResponseInterceptor for them.
+export type NodeResponseInterceptor = (
+  response: NodeTransportResponse,
+  request: NodeTransportRequest
+) => NodeTransportResponse | Promise<NodeTransportResponse>;
+
+// Runs on every streamed response, the body can be wrapped to observe or record the chunks as they are read
+export type NodeStreamResponseInterceptor = (
+  response: NodeTransportStreamResponse,
+  request: NodeTransportRequest
+) => NodeTransportStreamResponse | Promise<NodeTransportStreamResponse>;
+
+export type NodeRequestHandler = (request: NodeTransportRequest) => NodeTransportResponse | Promise<NodeTransportResponse>;
+
+export interface NodeTransport {
+  request(request: NodeTransportRequest): Promise<NodeTransportResponse>;
+  stream?(request: NodeTransportRequest): Promise<NodeTransportStreamResponse>;
+}
+
+export abstract class BaseNodeTransport implements NodeTransport {
+  private readonly requestInterceptors: NodeRequestInterceptor[] = [];
+  private readonly responseInterceptors: NodeResponseInterceptor[] = [];
+  private readonly streamResponseInterceptors: NodeStreamResponseInterceptor[] = [];
+
+  public addRequestInterceptor(interceptor: NodeRequestInterceptor) {
+    this.requestInterceptors.push(interceptor);
+    return this;
+  }
+
+  public addResponseInterceptor(interceptor: NodeResponseInterceptor) {
+    this.responseInterceptors.push(interceptor);
+    return this;
+  }
+
+  public addStreamResponseInterceptor(interceptor: NodeStreamResponseInterceptor) {
+    this.streamResponseInterceptors.push(interceptor);
+    return this;
+  }
+
+  public async request(request: NodeTransportRequest) {
+    request = await this.interceptRequest(request);
+    const response = await this.send(request);
+    return await this.interceptResponse(response, request);
+  }
+
+  public async stream(request: NodeTransportRequest) {
+    request = await this.interceptRequest(request);
+    const response = await this.sendStream(request);
+    return await this.interceptStreamResponse(response, request);
+  }
+
+  protected abstract send(request: NodeTransportRequest): Promise<NodeTransportResponse>;
+
+  // Transports without streaming support receive the whole response, which then goes through the response interceptors
+  protected async sendStream(request: NodeTransportRequest): Promise<NodeTransportStreamResponse> {
+    const response = await this.interceptResponse(await this.send(request), request);
+    const { status, data, headers } = response;
+    return { status, headers, body: toChunks(data) };
+  }
+
+  private async interceptRequest(request: NodeTransportRequest) {
+    for (const interceptor of this.requestInterceptors) {
+      request = await interceptor(request);
+    }
+    return request;
+  }
+
+  private async interceptResponse(response: NodeTransportResponse, request: NodeTransportRequest) {
+    for (const interceptor of this.responseInterceptors) {
+      response = await interceptor(response, request);
+    }
+    return response;
+  }
+
+  private async interceptStreamResponse(response: NodeTransportStreamResponse, request: NodeTransportRequest) {
+    for (const interceptor of this.streamResponseInterceptors) {
+      response = await interceptor(response, request);
+    }
+    return response;
+  }
+}
+
+export class AxiosTransport extends BaseNodeTransport {
+  private readonly axiosInstance: AxiosInstance;
+
+  constructor(axiosInstance?: AxiosInstance) {
+    super();
+    this.axiosInstance = axiosInstance || axios.create();
+  }
+
+  protected async send(request: NodeTransportRequest) {
+    const { method, url, data, headers, timeout } = request;
+    const response = await this.axiosInstance.request({ method, url, data, headers, timeout, validateStatus: () => true });
+    return { status: response.status, data: response.data, headers: response.headers };
+  }
+
+  // The response is streamed, so only the stream response interceptors run on it
+  protected async sendStream(request: NodeTransportRequest) {
+    const { method, url, data, headers, timeout } = request;
+    const response = await this.axiosInstance.request({ method, url, data, headers, timeout, responseType: 'stream', validateStatus: () => true });
+    return { status: response.status, body: toChunks(response.data), headers: response.headers };
+  }
+}
+
+export class HandlerTransport extends BaseNodeTransport {
+  private readonly handler: NodeRequestHandler;
+
+  constructor(handler: NodeRequestHandler) {
+    super();
+    this.handler = handler;
+  }
+
+  protected async send(request: NodeTransportRequest) {
+    return await this.handler(request);
+  }
+}
@@ -56,16 +56,16 @@ export abstract class Signature {
 }
 
 export class FullNodeFeeSignature extends Signature {
-  private amount: number;
+  private amount: utils.BigDecimal;
 
-  constructor(amount: number) {
+  constructor(amount: utils.BigDecimalValue) {
     super();
     this.signingType = SigningType.FULL_NODE_FEE;
-    this.amount = amount;
+    this.amount = utils.parseAmount(amount);
   }
 
   getBytes() {
-    return utils.getBytesFromString(utils.removeZerosFromEndOfNumber(this.amount));
+    return utils.getBytesFromString(this.amount.toString());
   }
 }
 
@@ -1,5 +1,5 @@
 import { keccak256 } from 'js-sha3';
-import { BaseTransaction, BaseTransactionName, BaseTransactionData } from './baseTransaction';
+import { BaseTransaction, BaseTransactionName, BaseTransactionData, BaseTransactionJSON, BaseTransactionSignatureResult } from './baseTransaction';
 import * as utils from './utils/utils';
 import { BaseAddress, IndexedAddress } from './address';
 import { SignatureData, SigningType } from './signature';
@@ -7,6 +7,7 @@ import { IndexedWallet } from './wallet';
 import BigDecimal = utils.BigDecimal;
 import * as cryptoUtils from './utils/cryptoUtils';
 import { PrivateKey } from './ecKeyPair';
+import { TransactionTrustScoreData } from './nodeResponse';
 
 type KeyPair = cryptoUtils.KeyPair;
 
@@ -34,6 +35,18 @@ export class ReducedTransaction {
 
 type TransactionTime = 'createTime' | 'attachmentTime' | 'transactionConsensusUpdateTime';
 
+export interface TransactionJSON {
+  hash: string;
+  baseTransactions: BaseTransactionJSON[];
+  createTime: number;
+  transactionConsensusUpdateTime?: number;
+  transactionDescription: string;
+  trustScoreResults: TransactionTrustScoreData[];
+  senderHash: string;
+  senderSignature?: SignatureData;
+  type: TransactionType;
+}
+
 export interface TransactionData {
   hash: string;
   baseTransactions: BaseTransactionData[];
@@ -48,6 +61,8 @@ export interface TransactionData {
   trustChainTrustScore: number;
   type: TransactionType;
   senderHash: string;
+  senderSignature?: SignatureData;
+  trustScoreResults?: TransactionTrustScoreData[];
   status: TransactionStatus;
   isValid: boolean;
 }
@@ -75,13 +90,20 @@ export class TransactionData {
   }
 }
 
+export interface TransactionSignatureReport {
+  transactionHash: string;
+  valid: boolean;
+  senderSignatureValid: boolean;
+  baseTransactions: BaseTransactionSignatureResult[];
+}
+
 export class Transaction {
   private hash!: string;
   private baseTransactions: BaseTransaction[];
   private createTime: number;
   private transactionConsensusUpdateTime?: number;
   private transactionDescription: string;
-  private trustScoreResults: string[];
+  private trustScoreResults: TransactionTrustScoreData[];
   private senderHash: string;
   private senderSignature!: SignatureData;
   private type: TransactionType;
@@ -108,6 +130,51 @@ export class Transaction {
     if (createHash) this.createTransactionHash();
   }
 
+  public static fromJSON(transactionJSON: TransactionJSON) {
+    const { hash, transactionDescription, senderHash, type } = transactionJSON;
+    const baseTransactions = transactionJSON.baseTransactions.map(baseTransactionJSON => BaseTransaction.fromJSON(baseTransactionJSON));
+    const transaction = new Transaction(baseTransactions, transactionDescription, senderHash, type);
+    if (transaction.hash !== hash) throw new Error(`Invalid transaction hash ${hash}`);
+
+    transaction.createTime = transactionJSON.createTime;
+    transaction.transactionConsensusUpdateTime = transactionJSON.transactionConsensusUpdateTime;
+    transaction.trustScoreResults = transactionJSON.trustScoreResults || [];
+    if (transactionJSON.senderSignature) transaction.senderSignature = transactionJSON.senderSignature;
+
+    return transaction;
+  }
+
+  public static fromTransactionData(transactionData: TransactionData) {
+    const {
+      hash,
+      baseTransactions,
+      createTime,
+      transactionConsensusUpdateTime,
+      transactionDescription,
+      trustScoreResults,
+      senderHash,
+      senderSignature,
+      type,
+    } = new TransactionData(transactionData);
+
+    return Transaction.fromJSON({
+      hash,
+      baseTransactions: baseTransactions.map(({ amount, originalAmount, reducedAmount, ...baseTransactionData }) => ({
+        ...baseTransactionData,
+        amount: `${amount}`,
+        originalAmount: originalAmount !== undefined ? `${originalAmount}` : undefined,
+        reducedAmount: reducedAmount !== undefined ? `${reducedAmount}` : undefined,
+      })),
+      createTime,
+      transactionConsensusUpdateTime,
+      transactionDescription,
+      trustScoreResults: trustScoreResults || [],
+      senderHash,
+      senderSignature,
+      type,
+    });
+  }
+
   public addBaseTransaction(address: BaseAddress, valueToSend: BigDecimal, name: BaseTransactionName) {
     let baseTransaction = new BaseTransaction(address.getAddressHex(), valueToSend, name);
     this.baseTransactions.push(baseTransaction);
@@ -124,7 +191,7 @@ export class Transaction {
     return this.hash;
   }
 
-  public addTrustScoreMessageToTransaction(trustScoreMessage: string) {
+  public addTrustScoreMessageToTransaction(trustScoreMessage: TransactionTrustScoreData) {
     this.trustScoreResults.push(trustScoreMessage);
   }
 
@@ -152,6 +219,10 @@ export class Transaction {
     this.transactionConsensusUpdateTime = transactionConsensusUpdateTime;
   }
 
+  public setSenderSignature(senderSignature: SignatureData) {
+    this.senderSignature = senderSignature;
+  }
+
   public async signTransaction<T extends IndexedAddress>(wallet: IndexedWallet<T>) {
     for (let i = 0; i < this.baseTransactions.length; i++) {
       await this.baseTransactions[i].sign(this.hash, wallet);
@@ -179,10 +250,54 @@ export class Transaction {
     this.senderSignature = cryptoUtils.signByteArrayMessage(messageInBytes, userKeyPair);
   }
 
+  public verifySignatures(): TransactionSignatureReport {
+    const baseTransactions = this.baseTransactions.map(baseTransaction => baseTransaction.getSignatureResult(this.hash));
+    const senderSignatureValid = this.verifySenderSignature();
+    const valid = senderSignatureValid && baseTransactions.every(baseTransactionResult => baseTransactionResult.valid);
+
+    return { transactionHash: this.hash, valid, senderSignatureValid, baseTransactions };
+  }
+
+  public verifySenderSignature() {
+    if (!this.senderSignature) return false;
+    try {
+      const messageInBytes = this.getSignatureMessage();
+      return cryptoUtils.verifySignature(messageInBytes, this.senderSignature, cryptoUtils.getUncompressedPublicKeyHex(this.senderHash));
+    } catch {
+      return false;
+    }
+  }
+
+  public getBaseTransactions() {
+    return this.baseTransactions;
+  }
+
+  public getTrustScoreResults() {
+    return this.trustScoreResults;
+  }
+
+  public isSigned() {
+    return !!this.senderSignature;
+  }
+
   public getInputBaseTransactions() {
     return this.baseTransactions.filter(baseTransaction => baseTransaction.isInput());
   }
 
+  public toJSON(): TransactionJSON {
+    return {
+      hash: this.hash,
+      baseTransactions: this.baseTransactions.map(baseTransaction => baseTransaction.toJSON()),
+      createTime: this.createTime,
+      transactionConsensusUpdateTime: this.transactionConsensusUpdateTime,
+      transactionDescription: this.transactionDescription,
+      trustScoreResults: this.trustScoreResults,
+      senderHash: this.senderHash,
+      senderSignature: this.senderSignature,
+      type: this.type,
+    };
+  }
+
   private getSignatureMessage() {
     const transactionHashInBytes = utils.hexToBytes(this.hash);
     const transactionTypeInBytes = utils.getBytesFromString(this.type);
@@ -0,0 +1,89 @@
+import { BigDecimal } from './utils';
+import { TransactionData, TransactionStatus } from '../transaction';
+
+export interface BalanceHistoryEntry {
+  hash: string;
+  createTime: number;
+  status: TransactionStatus;
+  amount: BigDecimal;
+  balance: BigDecimal;
+  preBalance: BigDecimal;
+}
+
+export interface ReportedBalance {
+  balance: BigDecimal;
+  preBalance: BigDecimal;
+}
+
+export interface BalanceReconciliation {
+  balance: BigDecimal;
+  preBalance: BigDecimal;
+  reportedBalance: BigDecimal;
+  reportedPreBalance: BigDecimal;
+  balanceGap: BigDecimal;
+  preBalanceGap: BigDecimal;
+  reconciled: boolean;
+}
+
+export interface BalanceHistory {
+  entries: BalanceHistoryEntry[];
+  reconciliation: BalanceReconciliation;
+}
+
+export interface AddressBalanceHistory extends BalanceHistory {
+  addressHex: string;
+}
+
+export interface WalletBalanceHistory extends BalanceHistory {
+  addresses: AddressBalanceHistory[];
+}
+
+// The running pre balance includes every transaction while the running balance includes only the confirmed ones. Entries are in the order
+// the transactions changed the balance: confirmed ones by confirmation time, pending ones by attachment time after them.
+// The amount of an entry is the sum of the base transactions of the given addresses, so for a wallet the transfers between its own addresses are only their fees.
+export function getBalanceHistory(transactions: Iterable<TransactionData>, addressHexes: Iterable<string>) {
+  const addresses = new Set(addressHexes);
+  const zero = new BigDecimal('0');
+  let balance = zero;
+  let preBalance = zero;
+
+  return [...transactions]
+    .filter(({ isValid, baseTransactions }) => isValid !== false && baseTransactions.some(({ addressHash }) => addresses.has(addressHash)))
+    .sort((first, second) => compareBalanceTime(first, second) || first.hash.localeCompare(second.hash))
+    .map(({ hash, createTime, transactionConsensusUpdateTime, baseTransactions }) => {
+      const amount = baseTransactions
+        .filter(({ addressHash }) => addresses.has(addressHash))
+        .reduce((sum, baseTransaction) => sum.add(new BigDecimal(baseTransaction.amount)), zero);
+      const status: TransactionStatus = transactionConsensusUpdateTime ? 'confirmed' : 'pending';
+      preBalance = preBalance.add(amount);
+      if (status === 'confirmed') balance = balance.add(amount);
+      return { hash, createTime, status, amount, balance, preBalance };
+    });
+}
+
+function compareBalanceTime(first: TransactionData, second: TransactionData) {
+  if (!first.transactionConsensusUpdateTime !== !second.transactionConsensusUpdateTime) return first.transactionConsensusUpdateTime ? -1 : 1;
+  return getBalanceTime(first) - getBalanceTime(second);
+}
+
+function getBalanceTime({ transactionConsensusUpdateTime, attachmentTime, createTime }: TransactionData) {
+  return transactionConsensusUpdateTime || attachmentTime || createTime;
+}
+
+// A gap means the history is missing transactions (e.g. it was not fetched from the beginning) or the node balance is not updated yet
+export function reconcileBalance(entries: BalanceHistoryEntry[], reportedBalance: ReportedBalance): BalanceReconciliation {
+  const lastEntry = entries[entries.length - 1];
+  const balance = lastEntry ? lastEntry.balance : new BigDecimal('0');
+  const preBalance = lastEntry ? lastEntry.preBalance : new BigDecimal('0');
+  const balanceGap = reportedBalance.balance.subtract(balance);
+  const preBalanceGap = reportedBalance.preBalance.subtract(preBalance);
+  return {
+    balance,
+    preBalance,
+    reportedBalance: reportedBalance.balance,
+    reportedPreBalance: reportedBalance.preBalance,
+    balanceGap,
+    preBalanceGap,
+    reconciled: balanceGap.isZero() && preBalanceGap.isZero(),
+  };
+}
@@ -0,0 +1,128 @@
+import { BigDecimal } from './utils';
+import { BaseAddress, IndexedAddress } from '../address';
+import { InsufficientBalanceError } from '../cotiError';
+import { BaseTransactionName } from '../baseTransaction';
+import { Transaction } from '../transaction';
+
+export interface SpendableAddress {
+  addressHex: string;
+  index: number;
+  spendable: BigDecimal;
+}
+
+export interface SelectedInput {
+  addressHex: string;
+  amount: BigDecimal;
+}
+
+export interface SelectionFees {
+  fullNodeFee: BigDecimal;
+  networkFee: BigDecimal;
+  total: BigDecimal;
+}
+
+// Inputs are the amounts chosen by the strategy, debits are what the built transaction takes from each address including the fees
+export interface CoinSelection {
+  strategy: string;
+  inputs: SelectedInput[];
+  feeAddress?: string;
+  debits: SelectedInput[];
+  fees: SelectionFees;
+}
+
+export type CoinSelector = (candidates: SpendableAddress[], amount: BigDecimal) => SpendableAddress[];
+
+export type CoinSelectionStrategy = 'fewestInputs' | 'oldestFirst' | 'drainSmall';
+
+export const coinSelectors: { [strategy in CoinSelectionStrategy]: CoinSelector } = {
+  // A single address covering the amount is preferred, the smallest one that does, otherwise the largest addresses are spent first
+  fewestInputs: (candidates, amount) => {
+    const coveringCandidates = candidates.filter(candidate => candidate.spendable.compareTo(amount) >= 0).sort(compareSpendable);
+    if (coveringCandidates.length) return [coveringCandidates[0]];
+    return [...candidates].sort((candidate1, candidate2) => compareSpendable(candidate2, candidate1));
+  },
+  oldestFirst: candidates => [...candidates].sort((candidate1, candidate2) => candidate1.index - candidate2.index),
+  drainSmall: candidates => [...candidates].sort(compareSpendable),
+};
+
+function compareSpendable(candidate1: SpendableAddress, candidate2: SpendableAddress) {
+  return candidate1.spendable.compareTo(candidate2.spendable);
+}
+
+export function getSpendableAddresses(addresses: BaseAddress[]): SpendableAddress[] {
+  return addresses
+    .filter(address => address instanceof IndexedAddress)
+    .map(address => {
+      const balance = address.getBalance();
+      const preBalance = address.getPreBalance();
+      const spendable = preBalance.compareTo(balance) < 0 ? preBalance : balance;
+      return { addressHex: address.getAddressHex(), index: (<IndexedAddress>address).getIndex(), spendable };
+    })
+    .filter(candidate => candidate.spendable.isPositive() && !candidate.spendable.isZero());
+}
+
+// The selector is given the amount with the fee so the selected addresses can also pay it, the inputs only cover the amount
+export function selectCoins(candidates: SpendableAddress[], amount: BigDecimal, selector: CoinSelector, fee = new BigDecimal('0')) {
+  const totalSpendable = candidates.reduce((total, candidate) => total.add(candidate.spendable), new BigDecimal('0'));
+  if (totalSpendable.compareTo(amount.add(fee)) < 0)
+    throw new InsufficientBalanceError(
+      `Not enough balance in wallet addresses to send ${amount} with fees of ${fee}, spendable balance is ${totalSpendable}`
+    );
+
+  const inputs: SelectedInput[] = [];
+  let remaining = amount;
+  for (const { addressHex, spendable } of selector(candidates, amount.add(fee))) {
+    if (remaining.isZero()) break;
+    if (inputs.some(input => input.addressHex === addressHex)) continue;
+    const inputAmount = spendable.compareTo(remaining) < 0 ? spendable : remaining;
+    inputs.push({ addressHex, amount: inputAmount });
+    remaining = remaining.subtract(inputAmount);
+  }
+  if (!remaining.isZero()) throw new InsufficientBalanceError(`Not enough balance in wallet addresses to send ${amount}, missing ${remaining}`);
+
+  return inputs;
+}
+
+// Fee included transactions take the fees out of the amount sent and need no fee address, otherwise the fees are paid by the address left with the most balance
+export function selectFeeAddress(candidates: SpendableAddress[], inputs: SelectedInput[], feeIncluded: boolean, fee = new BigDecimal('0')) {
+  if (feeIncluded) return;
+
+  let feeAddress: string | undefined;
+  let feeAddressLeftover = new BigDecimal('0');
+  candidates.forEach(({ addressHex, spendable }) => {
+    const input = inputs.find(selectedInput => selectedInput.addressHex === addressHex);
+    const leftover = input ? spendable.subtract(input.amount) : spendable;
+    if (!feeAddress || leftover.compareTo(feeAddressLeftover) > 0) {
+      feeAddress = addressHex;
+      feeAddressLeftover = leftover;
+    }
+  });
+  if (!feeAddress || feeAddressLeftover.compareTo(fee) < 0)
+    throw new InsufficientBalanceError(`No wallet address has ${fee} left to pay the fees after the selected inputs`);
+
+  return feeAddress;
+}
+
+export function getTransactionDebits(transaction: Transaction): SelectedInput[] {
+  const debitMap = new Map<string, BigDecimal>();
+  transaction
+    .getBaseTransactions()
+    .filter(baseTransaction => baseTransaction.isInput())
+    .forEach(baseTransaction => {
+      const addressHex = baseTransaction.getAddressHash();
+      debitMap.set(addressHex, (debitMap.get(addressHex) || new BigDecimal('0')).subtract(baseTransaction.getAmount()));
+    });
+  return [...debitMap].map(([addressHex, amount]) => ({ addressHex, amount }));
+}
+
+export function getTransactionFees(transaction: Transaction): SelectionFees {
+  const zero = new BigDecimal('0');
+  const fees = { fullNodeFee: zero, networkFee: zero, total: zero };
+  transaction.getBaseTransactions().forEach(baseTransaction => {
+    const name = baseTransaction.getName();
+    if (name === BaseTransactionName.FULL_NODE_FEE) fees.fullNodeFee = fees.fullNodeFee.add(baseTransaction.getAmount());
+    else if (name === BaseTransactionName.NETWORK_FEE) fees.networkFee = fees.networkFee.add(baseTransaction.getAmount());
+  });
+  fees.total = fees.fullNodeFee.add(fees.networkFee);
+  return fees;
+}
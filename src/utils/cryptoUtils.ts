@@ -1,13 +1,15 @@
 import * as crypto from 'crypto';
+import { promisify } from 'util';
 import BN from 'bn.js';
 import * as CRC32 from 'crc-32';
 import * as elliptic from 'elliptic';
 import * as utils from './utils';
 import { sha256 } from 'js-sha256';
 import { sha3_256 as sha3Bit256, keccak256 } from 'js-sha3';
-import { blake } from 'blakejs';
+import * as blake from 'blakejs';
 import { SignatureData } from '../signature';
 import * as bip39 from 'bip39';
+import { InvalidMnemonicError } from '../cotiError';
 
 const ec = new elliptic.ec('secp256k1');
 const regexp = /^[0-9a-fA-F]+$/;
@@ -15,6 +17,57 @@ const publicKeyLength = 128;
 const orderGHex = 'FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141';
 const orderG = new BN(orderGHex, 16);
 
+const envelopePrefix = 'enc:';
+const envelopeVersion = 1;
+const envelopeSaltLength = 16;
+const envelopeIvLength = 12;
+const envelopeTagLength = 16;
+
+export const defaultScryptN = 1 << 15;
+export const defaultScryptR = 8;
+export const defaultScryptP = 1;
+export const defaultPbkdf2Iterations = 262144;
+
+const scrypt = promisify<crypto.BinaryLike, crypto.BinaryLike, number, crypto.ScryptOptions, Buffer>(crypto.scrypt);
+const pbkdf2 = promisify(crypto.pbkdf2);
+
+export type MnemonicLanguage =
+  | 'english'
+  | 'japanese'
+  | 'korean'
+  | 'spanish'
+  | 'chinese_simplified'
+  | 'chinese_traditional'
+  | 'french'
+  | 'italian'
+  | 'czech'
+  | 'portuguese';
+
+export enum EnvelopeKdf {
+  SCRYPT = 1,
+  PBKDF2_SHA256 = 2,
+}
+
+export interface ScryptKdfParams {
+  kdf: 'scrypt';
+  N: number;
+  r: number;
+  p: number;
+}
+
+export interface Pbkdf2KdfParams {
+  kdf: 'pbkdf2';
+  iterations: number;
+}
+
+export type KdfParams = ScryptKdfParams | Pbkdf2KdfParams;
+
+export interface EnvelopeOptions {
+  kdf?: EnvelopeKdf;
+  scryptLogN?: number;
+  pbkdf2Iterations?: number;
+}
+
 export interface Encryption {
   content: string;
   tag: Buffer;
@@ -47,20 +100,117 @@ export function decryptGCM(encrypted: Encryption, password: string, iv: string)
   return dec;
 }
 
+/**
+ * @deprecated Legacy format without salt and iv, use encrypt instead. Kept to read and migrate existing ciphertexts.
+ */
 export function encryptCTR(text: string, password: string) {
-  let cipher = crypto.createCipher('aes-256-ctr', password);
+  const { key, iv } = getLegacyCTRKey(password);
+  let cipher = crypto.createCipheriv('aes-256-ctr', key, iv);
   let crypted = cipher.update(text, 'utf8', 'hex');
   crypted += cipher.final('hex');
   return crypted;
 }
 
+/**
+ * @deprecated Legacy format without salt and iv, use decrypt instead, which also reads this format.
+ */
 export function decryptCTR(text: string, password: string) {
-  let decipher = crypto.createDecipher('aes-256-ctr', password);
+  const { key, iv } = getLegacyCTRKey(password);
+  let decipher = crypto.createDecipheriv('aes-256-ctr', key, iv);
   let dec = decipher.update(text, 'hex', 'utf8');
   dec += decipher.final('utf8');
   return dec;
 }
 
+// Same key and iv as the removed crypto.createCipher, which used EVP_BytesToKey with md5, one round and no salt
+function getLegacyCTRKey(password: string) {
+  const passwordBuffer = Buffer.from(password, 'utf8');
+  const blocks: Buffer[] = [];
+  let block = Buffer.alloc(0);
+  while (blocks.length < 3) {
+    block = crypto
+      .createHash('md5')
+      .update(Buffer.concat([block, passwordBuffer]))
+      .digest();
+    blocks.push(block);
+  }
+  return { key: Buffer.concat(blocks.slice(0, 2)), iv: blocks[2] };
+}
+
+// Password based key derivation shared by the encryption envelope and the keystore, pbkdf2 uses hmac-sha256
+export async function deriveKey(password: string, salt: Buffer, keyLength: number, kdfParams: KdfParams) {
+  if (kdfParams.kdf === 'scrypt') {
+    const { N, r, p } = kdfParams;
+    return await scrypt(password, salt, keyLength, { N, r, p, maxmem: 256 * N * r });
+  }
+  return await pbkdf2(password, salt, kdfParams.iterations, keyLength, 'sha256');
+}
+
+// Envelope layout: version, kdf, kdf params, salt, iv, auth tag and ciphertext, encoded as base64 after the envelope prefix
+export async function encrypt(text: string, password: string, options: EnvelopeOptions = {}) {
+  const { kdf = EnvelopeKdf.SCRYPT, scryptLogN = Math.log2(defaultScryptN), pbkdf2Iterations = defaultPbkdf2Iterations } = options;
+  let kdfParams: Buffer;
+  if (kdf === EnvelopeKdf.SCRYPT) kdfParams = Buffer.from([scryptLogN, defaultScryptR, defaultScryptP]);
+  else if (kdf === EnvelopeKdf.PBKDF2_SHA256) {
+    kdfParams = Buffer.alloc(4);
+    kdfParams.writeUInt32BE(pbkdf2Iterations, 0);
+  } else throw new Error(`Unsupported envelope kdf ${kdf}`);
+  const salt = crypto.randomBytes(envelopeSaltLength);
+  const iv = crypto.randomBytes(envelopeIvLength);
+  const key = await deriveEnvelopeKey(password, kdf, kdfParams, salt);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+  const envelope = Buffer.concat([Buffer.from([envelopeVersion, kdf]), kdfParams, salt, iv, cipher.getAuthTag(), ciphertext]);
+  return envelopePrefix + envelope.toString('base64');
+}
+
+export async function decrypt(encrypted: string, password: string) {
+  if (isLegacyEncryption(encrypted)) return decryptCTR(encrypted, password);
+  if (!encrypted.startsWith(envelopePrefix)) throw new Error('Unknown encryption format');
+
+  const envelope = Buffer.from(encrypted.substring(envelopePrefix.length), 'base64');
+  if (envelope[0] !== envelopeVersion) throw new Error(`Unsupported encryption envelope version ${envelope[0]}`);
+  const kdf = envelope[1];
+  const kdfParamsLength = kdf === EnvelopeKdf.SCRYPT ? 3 : 4;
+  const saltOffset = 2 + kdfParamsLength;
+  const ivOffset = saltOffset + envelopeSaltLength;
+  const tagOffset = ivOffset + envelopeIvLength;
+  const ciphertextOffset = tagOffset + envelopeTagLength;
+  const kdfParams = envelope.slice(2, saltOffset);
+  const salt = envelope.slice(saltOffset, ivOffset);
+  const iv = envelope.slice(ivOffset, tagOffset);
+  const tag = envelope.slice(tagOffset, ciphertextOffset);
+  const ciphertext = envelope.slice(ciphertextOffset);
+
+  const key = await deriveEnvelopeKey(password, kdf, kdfParams, salt);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  try {
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  } catch {
+    throw new Error('Wrong password or corrupted encryption envelope');
+  }
+}
+
+// An empty string is what the legacy format produces for an empty text
+export function isLegacyEncryption(encrypted: string) {
+  return encrypted === '' || (!encrypted.startsWith(envelopePrefix) && regexp.test(encrypted));
+}
+
+export async function migrateLegacyEncryption(encrypted: string, password: string, options?: EnvelopeOptions) {
+  if (!isLegacyEncryption(encrypted)) return encrypted;
+  return await encrypt(decryptCTR(encrypted, password), password, options);
+}
+
+async function deriveEnvelopeKey(password: string, kdf: EnvelopeKdf, kdfParams: Buffer, salt: Buffer) {
+  if (kdf === EnvelopeKdf.SCRYPT) {
+    const [logN, r, p] = kdfParams;
+    return await deriveKey(password, salt, 32, { kdf: 'scrypt', N: 2 ** logN, r, p });
+  }
+  if (kdf === EnvelopeKdf.PBKDF2_SHA256) return await deriveKey(password, salt, 32, { kdf: 'pbkdf2', iterations: kdfParams.readUInt32BE(0) });
+  throw new Error(`Unsupported envelope kdf ${kdf}`);
+}
+
 export function getCrc32(arr: Uint8Array) {
   let checkSum = CRC32.buf(arr);
   let checkSumInBytes = new Uint8Array(toBytesInt32(checkSum));
@@ -111,11 +261,15 @@ export function getKeyPairFromPublic(publicKeyHex: string) {
   return ec.keyFromPublic(publicKeyHex, 'hex');
 }
 
-export function verifySignature(messageInBytes: Uint8Array, signature: EcSignature, publicKeyHex: string) {
+export function verifySignature(messageInBytes: Uint8Array, signature: EcSignature | SignatureData, publicKeyHex: string) {
   let keyPair = getKeyPairFromPublic(publicKeyHex);
   return keyPair.verify(messageInBytes, signature);
 }
 
+export function getUncompressedPublicKeyHex(publicHash: string) {
+  return '04' + publicHash.substring(0, publicKeyLength);
+}
+
 export function signByteArrayMessage(byteArray: Uint8Array, keyPair: KeyPair): SignatureData {
   const ecSignature = keyPair.sign(byteArray);
   return { r: ecSignature.r.toString(16), s: ecSignature.s.toString(16) };
@@ -205,12 +359,57 @@ export function generateSeed(key: string) {
   return blake.blake2bHex(Buffer.from(combinedArray), null, 32);
 }
 
-export function generateMnemonic() {
-  return bip39.generateMnemonic();
+export function generateMnemonic(language: MnemonicLanguage = 'english') {
+  return bip39.generateMnemonic(undefined, undefined, getMnemonicWordlist(language));
+}
+
+function getMnemonicWordlist(language: MnemonicLanguage) {
+  const wordlist = bip39.wordlists[language];
+  if (!wordlist) throw new Error(`Unsupported mnemonic language ${language}`);
+  return wordlist;
+}
+
+// Words are separated by any whitespace (including the ideographic space of japanese mnemonics) and compared in NFKD form as in BIP39
+export function normalizeMnemonic(mnemonic: string) {
+  return mnemonic.normalize('NFKD').trim().split(/\s+/).join(' ');
+}
+
+export function validateMnemonic(mnemonic: string, language: MnemonicLanguage = 'english') {
+  const wordlist = getMnemonicWordlist(language);
+  const normalizedMnemonic = normalizeMnemonic(mnemonic);
+  const words = normalizedMnemonic ? normalizedMnemonic.split(' ') : [];
+  const invalidWords = words.filter(word => !wordlist.includes(word));
+  if (invalidWords.length)
+    throw new InvalidMnemonicError(`Mnemonic has words which are not in the ${language} wordlist: ${invalidWords.join(', ')}`, invalidWords);
+  if (words.length < 12 || words.length > 24 || words.length % 3 !== 0)
+    throw new InvalidMnemonicError(`Mnemonic should have 12, 15, 18, 21 or 24 words, got ${words.length}`);
+  try {
+    bip39.mnemonicToEntropy(normalizedMnemonic, wordlist);
+  } catch (e) {
+    throw new InvalidMnemonicError('Invalid mnemonic checksum', [], { cause: e });
+  }
+  return normalizedMnemonic;
+}
+
+export async function generateSeedFromMnemonic(mnemonic: string, passphrase?: string) {
+  return await bip39.mnemonicToSeed(mnemonic, passphrase).then(bytes => utils.byteArrayToHexString(bytes));
+}
+
+/**
+ * Maps the 64 bytes BIP39 seed (128 hex characters) to the 32 bytes wallet seed (64 hex characters) the same way generateSeed maps a user secret:
+ * blake2b-256(sha256(bip39SeedHex) || sha3-256(bip39SeedHex)), where bip39SeedHex is the lower case hex of the BIP39 seed.
+ * Note that generateKeyPairFromMnemonic uses the BIP39 seed itself and so derives different keys than a wallet from the same mnemonic.
+ */
+export function generateSeedFromBip39Seed(bip39Seed: string) {
+  if (bip39Seed.length !== 128 || !regexp.test(bip39Seed)) throw new Error('BIP39 seed should be 128 hex characters');
+  return generateSeed(bip39Seed.toLowerCase());
 }
 
-export async function generateSeedFromMnemonic(mnemonic: string) {
-  return await bip39.mnemonicToSeed(mnemonic).then(bytes => utils.byteArrayToHexString(bytes));
+export async function generateWalletSeedFromMnemonic(mnemonic: string, options: { passphrase?: string; language?: MnemonicLanguage } = {}) {
+  const { passphrase, language } = options;
+  const normalizedMnemonic = validateMnemonic(mnemonic, language);
+  const bip39Seed = await generateSeedFromMnemonic(normalizedMnemonic, passphrase);
+  return generateSeedFromBip39Seed(bip39Seed);
 }
 
 export async function generateKeyPairFromMnemonic(mnemonic: string, index?: number) {
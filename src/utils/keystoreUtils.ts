@@ -0,0 +1,151 @@
+import * as crypto from 'crypto';
+import { InvalidKeystorePasswordError, KeystoreError } from '../cotiError';
+import * as cryptoUtils from './cryptoUtils';
+
+export type KeystoreKdf = 'scrypt' | 'pbkdf2';
+
+export interface ScryptParams {
+  dklen: number;
+  n: number;
+  r: number;
+  p: number;
+  salt: string;
+}
+
+export interface Pbkdf2Params {
+  dklen: number;
+  c: number;
+  prf: 'hmac-sha256';
+  salt: string;
+}
+
+export interface Keystore {
+  version: number;
+  id: string;
+  publicHash: string;
+  crypto: {
+    cipher: 'aes-256-gcm';
+    ciphertext: string;
+    cipherparams: { iv: string };
+    tag: string;
+    kdf: KeystoreKdf;
+    kdfparams: ScryptParams | Pbkdf2Params;
+  };
+}
+
+export interface KeystoreOptions {
+  kdf?: KeystoreKdf;
+  scryptN?: number;
+  pbkdf2Iterations?: number;
+}
+
+export const keystoreVersion = 1;
+
+const keyLength = 32;
+
+// The kdf parameters of a keystore are untrusted input, they are bounded so a keystore can't make the derivation exhaust memory or time
+const maxScryptN = 1 << 20;
+const maxScryptR = 32;
+const maxScryptP = 16;
+const maxScryptMemory = 256 * 1024 * 1024;
+const maxPbkdf2Iterations = 10000000;
+
+export async function encryptKeystore(secret: string, publicHash: string, password: string, options: KeystoreOptions = {}): Promise<Keystore> {
+  const { kdf = 'scrypt', scryptN = cryptoUtils.defaultScryptN, pbkdf2Iterations = cryptoUtils.defaultPbkdf2Iterations } = options;
+  if (!password) throw new KeystoreError('Keystore password should not be empty');
+  const salt = crypto.randomBytes(32).toString('hex');
+  const kdfparams: ScryptParams | Pbkdf2Params =
+    kdf === 'scrypt'
+      ? { dklen: keyLength, n: scryptN, r: cryptoUtils.defaultScryptR, p: cryptoUtils.defaultScryptP, salt }
+      : { dklen: keyLength, c: pbkdf2Iterations, prf: 'hmac-sha256', salt };
+  checkKdfParams(kdf, kdfparams);
+  const key = await deriveKey(password, kdf, kdfparams);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+  return {
+    version: keystoreVersion,
+    id: crypto.randomBytes(16).toString('hex'),
+    publicHash,
+    crypto: {
+      cipher: 'aes-256-gcm',
+      ciphertext: ciphertext.toString('hex'),
+      cipherparams: { iv: iv.toString('hex') },
+      tag: cipher.getAuthTag().toString('hex'),
+      kdf,
+      kdfparams,
+    },
+  };
+}
+
+export async function decryptKeystore(keystore: Keystore | string, password: string) {
+  const parsedKeystore = parseKeystore(keystore);
+  const { ciphertext, cipherparams, tag, kdf, kdfparams } = parsedKeystore.crypto;
+  let key: Buffer;
+  try {
+    key = await deriveKey(password, kdf, kdfparams);
+  } catch (error) {
+    throw new KeystoreError('Keystore key derivation failed', { cause: error });
+  }
+  let decipher: crypto.DecipherGCM;
+  try {
+    decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(cipherparams.iv, 'hex'));
+    decipher.setAuthTag(Buffer.from(tag, 'hex'));
+  } catch (error) {
+    throw new KeystoreError('Invalid keystore cipher params', { cause: error });
+  }
+  try {
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'hex')), decipher.final()]).toString('utf8');
+  } catch (error) {
+    throw new InvalidKeystorePasswordError(undefined, { cause: error });
+  }
+}
+
+export function parseKeystore(keystore: Keystore | string) {
+  let parsedKeystore: Keystore;
+  try {
+    parsedKeystore = typeof keystore === 'string' ? JSON.parse(keystore) : keystore;
+  } catch (error) {
+    throw new KeystoreError('Keystore is not valid json', { cause: error });
+  }
+  if (!parsedKeystore || parsedKeystore.version !== keystoreVersion)
+    throw new KeystoreError(`Unsupported keystore version ${parsedKeystore && parsedKeystore.version}`);
+  const keystoreCrypto = parsedKeystore.crypto;
+  if (!keystoreCrypto || keystoreCrypto.cipher !== 'aes-256-gcm') throw new KeystoreError('Unsupported keystore cipher');
+  if (keystoreCrypto.kdf !== 'scrypt' && keystoreCrypto.kdf !== 'pbkdf2') throw new KeystoreError(`Unsupported keystore kdf ${keystoreCrypto.kdf}`);
+  checkKdfParams(keystoreCrypto.kdf, keystoreCrypto.kdfparams);
+  return parsedKeystore;
+}
+
+function checkKdfParams(kdf: KeystoreKdf, kdfparams: ScryptParams | Pbkdf2Params) {
+  if (!kdfparams || typeof kdfparams.salt !== 'string' || !kdfparams.salt) throw new KeystoreError('Missing keystore kdf salt');
+  if (kdfparams.dklen !== keyLength) throw new KeystoreError(`Unsupported keystore key length ${kdfparams.dklen}, expected ${keyLength}`);
+  if (kdf === 'scrypt') {
+    const { n, r, p } = <ScryptParams>kdfparams;
+    if (!isIntegerInRange(n, 2, maxScryptN) || (n & (n - 1)) !== 0)
+      throw new KeystoreError(`Invalid keystore scrypt n ${n}, expected a power of 2 up to ${maxScryptN}`);
+    if (!isIntegerInRange(r, 1, maxScryptR)) throw new KeystoreError(`Invalid keystore scrypt r ${r}, expected 1 to ${maxScryptR}`);
+    if (!isIntegerInRange(p, 1, maxScryptP)) throw new KeystoreError(`Invalid keystore scrypt p ${p}, expected 1 to ${maxScryptP}`);
+    if (128 * n * r > maxScryptMemory) throw new KeystoreError(`Keystore scrypt parameters n ${n} and r ${r} need too much memory`);
+  } else {
+    const { c } = <Pbkdf2Params>kdfparams;
+    if (!isIntegerInRange(c, 1, maxPbkdf2Iterations))
+      throw new KeystoreError(`Invalid keystore pbkdf2 iterations ${c}, expected 1 to ${maxPbkdf2Iterations}`);
+  }
+}
+
+function isIntegerInRange(value: number, min: number, max: number) {
+  return Number.isInteger(value) && value >= min && value <= max;
+}
+
+async function deriveKey(password: string, kdf: KeystoreKdf, kdfparams: ScryptParams | Pbkdf2Params) {
+  const salt = Buffer.from(kdfparams.salt, 'hex');
+  if (kdf === 'scrypt') {
+    const { dklen, n, r, p } = <ScryptParams>kdfparams;
+    return await cryptoUtils.deriveKey(password, salt, dklen, { kdf, N: n, r, p });
+  }
+  const { dklen, c, prf } = <Pbkdf2Params>kdfparams;
+  if (prf !== 'hmac-sha256') throw new KeystoreError(`Unsupported keystore prf ${prf}`);
+  return await cryptoUtils.deriveKey(password, salt, dklen, { kdf, iterations: c });
+}
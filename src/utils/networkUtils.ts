@@ -0,0 +1,138 @@
+import { NodeTransport } from '../nodeTransport';
+import { SocketClientFactory } from '../webSocket';
+
+export type NetworkName = 'mainnet' | 'testnet';
+
+export interface NetworkTimeouts {
+  request?: number;
+  websocketConnect?: number;
+}
+
+export interface NetworkRetryOptions {
+  retries?: number;
+  minDelay?: number;
+  maxDelay?: number;
+  factor?: number;
+  unhealthyNodeCooldown?: number;
+}
+
+export interface NetworkConfig {
+  name: string;
+  fullNode: string | string[];
+  trustScoreNode: string | string[];
+  api: string;
+  websocket?: string;
+  timeouts?: NetworkTimeouts;
+  retry?: NetworkRetryOptions;
+  transport?: NodeTransport;
+  socketClientFactory?: SocketClientFactory;
+}
+
+export type NodeType = 'fullNode' | 'trustScoreNode' | 'api';
+
+export type Network = NetworkName | (string & {}) | NetworkConfig;
+
+const defaultWebsocketConnectTimeout = 10000;
+
+const defaultRetryOptions: Required<NetworkRetryOptions> = {
+  retries: 3,
+  minDelay: 500,
+  maxDelay: 8000,
+  factor: 2,
+  unhealthyNodeCooldown: 30000,
+};
+
+const networkConfigMap = new Map<string, NetworkConfig>([
+  [
+    'mainnet',
+    {
+      name: 'mainnet',
+      fullNode: 'https://mainnet-fullnode1.coti.io',
+      trustScoreNode: 'https://mainnet-trustscore1.coti.io',
+      api: 'https://cca.coti.io',
+    },
+  ],
+  [
+    'testnet',
+    {
+      name: 'testnet',
+      fullNode: 'https://testnet-fullnode1.coti.io',
+      trustScoreNode: 'https://testnet-trustscore1.coti.io',
+      api: 'https://cca.coti.io',
+    },
+  ],
+]);
+
+export namespace networkUtils {
+  export function registerNetwork(networkConfig: NetworkConfig) {
+    checkNetworkConfig(networkConfig);
+    networkConfigMap.set(networkConfig.name, networkConfig);
+  }
+
+  export function isNetworkRegistered(name: string) {
+    return networkConfigMap.has(name);
+  }
+
+  export function getRegisteredNetworkNames() {
+    return [...networkConfigMap.keys()];
+  }
+
+  export function getNetworkConfig(network: Network = 'mainnet') {
+    if (isNetworkConfig(network)) {
+      checkNetworkConfig(network);
+      return network;
+    }
+    const networkConfig = networkConfigMap.get(network);
+    if (!networkConfig) throw new Error(`Network ${network} is not registered`);
+    return networkConfig;
+  }
+
+  export function withTransport(network: Network = 'mainnet', transport?: NodeTransport): Network {
+    return transport ? { ...getNetworkConfig(network), transport } : network;
+  }
+
+  export function getNetworkName(network: Network = 'mainnet') {
+    return isNetworkConfig(network) ? network.name : network;
+  }
+
+  export function getNodeUrls(nodeType: NodeType, network: Network = 'mainnet') {
+    const nodeUrls = getNetworkConfig(network)[nodeType];
+    return Array.isArray(nodeUrls) ? nodeUrls : [nodeUrls];
+  }
+
+  export function getSocketUrl(network: Network = 'mainnet') {
+    const { websocket } = getNetworkConfig(network);
+    return websocket || `${getNodeUrls('fullNode', network)[0]}/websocket`;
+  }
+
+  export function getRetryOptions(network: Network = 'mainnet'): Required<NetworkRetryOptions> {
+    const { retry } = getNetworkConfig(network);
+    return { ...defaultRetryOptions, ...retry };
+  }
+
+  export function getRequestTimeout(network: Network = 'mainnet') {
+    const { timeouts } = getNetworkConfig(network);
+    return timeouts && timeouts.request;
+  }
+
+  export function getWebsocketConnectTimeout(network: Network = 'mainnet') {
+    const { timeouts } = getNetworkConfig(network);
+    return (timeouts && timeouts.websocketConnect) || defaultWebsocketConnectTimeout;
+  }
+
+  // Network names are typed as string & {} to keep the suggestions of the known names, which typeof doesn't narrow
+  function isNetworkConfig(network: Network): network is NetworkConfig {
+    return typeof network !== 'string';
+  }
+
+  function checkNetworkConfig(networkConfig: NetworkConfig) {
+    if (!networkConfig || !networkConfig.name) throw new Error('Network config should have a name');
+    if (!hasNodeUrl(networkConfig.fullNode)) throw new Error(`Missing full node url for network ${networkConfig.name}`);
+    if (!hasNodeUrl(networkConfig.trustScoreNode)) throw new Error(`Missing trust score node url for network ${networkConfig.name}`);
+    if (!networkConfig.api) throw new Error(`Missing api url for network ${networkConfig.name}`);
+  }
+
+  function hasNodeUrl(nodeUrls: string | string[]) {
+    return Array.isArray(nodeUrls) ? nodeUrls.length > 0 && nodeUrls.every(nodeUrl => !!nodeUrl) : !!nodeUrls;
+  }
+}
@@ -1,134 +1,189 @@
-import axios from 'axios';
 import { BaseAddress } from '../address';
 import { BaseTransactionData } from '../baseTransaction';
 import { SignatureData } from '../signature';
 import * as utils from './utils';
 import { Transaction, TransactionData } from '../transaction';
-import { NodeError } from '../cotiError';
+import {
+  NodeError,
+  NodeErrorOptions,
+  MalformedResponseError,
+  InsufficientBalanceError,
+  InvalidSignatureError,
+  NodeTimeoutError,
+  NodeUnavailableError,
+  ValidationRejectedError,
+} from '../cotiError';
+import { AddressBalanceMap, AddressExistenceMap, SendTransactionResponse, TransactionTrustScoreData, UserTrustScoreResponse } from '../nodeResponse';
+import { networkUtils, NodeType } from './networkUtils';
+import { AxiosTransport, NodeTransportMethod, NodeTransportRequest, NodeTransportResponse } from '../nodeTransport';
+import * as streamUtils from './streamUtils';
 
 type Network = utils.Network;
+type BigDecimalValue = utils.BigDecimalValue;
 
-const nodeUrl = {
-  mainnet: {
-    fullNode: 'https://mainnet-fullnode1.coti.io',
-    trustScoreNode: 'https://mainnet-trustscore1.coti.io',
-    api: 'https://cca.coti.io',
-  },
-  testnet: {
-    fullNode: 'https://testnet-fullnode1.coti.io',
-    trustScoreNode: 'https://testnet-trustscore1.coti.io',
-    api: 'https://cca.coti.io',
-  },
-};
+interface NodeRequestOptions {
+  idempotent?: boolean;
+  headers?: { [header: string]: string };
+}
+
+// The history endpoint only takes addresses, so since is filtered on the client after each chunk is downloaded,
+// it reduces the transactions processed but not the data transferred
+export interface TransactionsHistoryOptions {
+  chunkSize?: number;
+  since?: number;
+}
+
+const defaultTransport = new AxiosTransport();
+
+const defaultHistoryChunkSize = 100;
+
+const connectionErrorCodes = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH'];
+
+const timeoutErrorCodes = ['ECONNABORTED', 'ETIMEDOUT', 'ESOCKETTIMEDOUT'];
+
+const insufficientBalanceRegex = /(insufficient|not enough) (balance|funds)|balance (is )?(insufficient|not enough)/i;
+
+const invalidSignatureRegex = /signature/i;
+
+const unhealthyNodeMap = new Map<string, number>();
+
+class NodeRequestFailure extends Error {
+  readonly request: NodeTransportRequest;
+  readonly response?: NodeTransportResponse;
+  readonly code?: string;
+  readonly cause?: Error;
+
+  constructor(message: string, request: NodeTransportRequest, response?: NodeTransportResponse, cause?: any) {
+    super(message);
+    this.request = request;
+    this.response = response;
+    this.cause = cause;
+    this.code = cause && cause.code;
+  }
+}
 
 export namespace nodeUtils {
   export async function getUserTrustScore(userHash: string, network: Network = 'mainnet') {
+    let response;
     try {
-      const { data } = await axios.post(`${nodeUrl[network].trustScoreNode}/usertrustscore`, {
-        userHash,
-      });
-      return data;
+      response = await requestNode(network, 'trustScoreNode', 'post', '/usertrustscore', { userHash }, { idempotent: true });
     } catch (error) {
-      const errorMessage = getErrorMessage(error);
-      throw new NodeError(errorMessage, { debugMessage: `Error getting user trust score` });
+      throw createNodeError(error, `Error getting user trust score`);
     }
+    return validateUserTrustScore(response.data);
   }
 
   export async function sendAddressToNode(address: BaseAddress, network: Network = 'mainnet') {
     try {
-      const { data } = await axios.put(`${nodeUrl[network].fullNode}/address`, { address: address.getAddressHex() });
+      const { data } = await requestNode(network, 'fullNode', 'put', '/address', { address: address.getAddressHex() }, { idempotent: true });
       return data;
     } catch (error) {
-      const errorMessage = getErrorMessage(error);
-      throw new NodeError(errorMessage, { debugMessage: `Error sending address to fullnode` });
+      throw createNodeError(error, `Error sending address to fullnode`);
     }
   }
 
   export async function checkAddressesExist(addressesToCheck: string[], network: Network = 'mainnet') {
+    let response;
     try {
-      const { data } = await axios.post(`${nodeUrl[network].fullNode}/address`, { addresses: addressesToCheck });
-      return data.addresses;
+      response = await requestNode(network, 'fullNode', 'post', '/address', { addresses: addressesToCheck }, { idempotent: true });
     } catch (error) {
-      const errorMessage = getErrorMessage(error);
-      throw new NodeError(errorMessage, { debugMessage: `Error checking existing addresses from fullnode` });
+      throw createNodeError(error, `Error checking existing addresses from fullnode`);
     }
+    return validateAddressExistenceMap(response.data, addressesToCheck);
   }
 
   export async function checkBalances(addresses: string[], network: Network = 'mainnet') {
+    let response;
     try {
-      const { data } = await axios.post(`${nodeUrl[network].fullNode}/balance`, { addresses });
-      return data.addressesBalance;
+      response = await requestNode(network, 'fullNode', 'post', '/balance', { addresses }, { idempotent: true });
     } catch (error) {
-      const errorMessage = getErrorMessage(error);
-      throw new NodeError(errorMessage, { debugMessage: `Error checking address balances from fullnode` });
+      throw createNodeError(error, `Error checking address balances from fullnode`);
     }
+    return validateAddressBalanceMap(response.data, addresses);
   }
 
   export async function getTransaction(transactionHash: string, network: Network = 'mainnet') {
     try {
-      const { data } = await axios.post(`${nodeUrl[network].fullNode}/transaction`, { transactionHash });
+      const { data } = await requestNode(network, 'fullNode', 'post', '/transaction', { transactionHash }, { idempotent: true });
       let transaction: TransactionData = data.transactionData;
       transaction = new TransactionData(transaction);
       transaction.setStatus();
       return transaction;
     } catch (error) {
-      const errorMessage = getErrorMessage(error);
-      throw new NodeError(errorMessage, { debugMessage: `Error getting transaction from fullnode for hash: ${transactionHash}` });
+      throw createNodeError(error, `Error getting transaction from fullnode for hash: ${transactionHash}`);
     }
   }
 
-  export async function getTransactionsHistory(addresses: string[], network: Network = 'mainnet') {
+  export async function getTransactionsHistory(addresses: string[], network: Network = 'mainnet', options?: TransactionsHistoryOptions) {
     const transactionMap = new Map<string, TransactionData>();
-    let response = await axios.post(`${nodeUrl[network].fullNode}/transaction/addressTransactions/batch`, { addresses });
-
-    let parsedData = response.data;
-    if (typeof parsedData !== 'object') {
-      parsedData = JSON.parse(parsedData.substring(0, parsedData.length - 2).concat(']'));
-    }
-    const transactionsData: TransactionData[] = parsedData;
-    transactionsData.forEach(transaction => {
-      if (transactionMap.get(transaction.hash)) return;
-
-      transaction = new TransactionData(transaction);
-      transaction.setStatus();
+    for await (const transaction of streamTransactionsHistory(addresses, network, options)) {
       transactionMap.set(transaction.hash, transaction);
-    });
+    }
 
     return transactionMap;
   }
 
+  export async function* streamTransactionsHistory(
+    addresses: string[],
+    network: Network = 'mainnet',
+    options: TransactionsHistoryOptions = {}
+  ): AsyncIterableIterator<TransactionData> {
+    const { chunkSize = defaultHistoryChunkSize, since } = options;
+    const transactionHashes = new Set<string>();
+    for (let i = 0; i < addresses.length; i += chunkSize) {
+      const addressesChunk = addresses.slice(i, i + chunkSize);
+      let response;
+      try {
+        response = await streamNode(network, 'fullNode', 'post', '/transaction/addressTransactions/batch', { addresses: addressesChunk });
+      } catch (error) {
+        throw createNodeError(error, `Error getting transaction history from fullnode`);
+      }
+      try {
+        for await (let transaction of streamUtils.parseJsonArrayStream<TransactionData>(response.body)) {
+          if (transactionHashes.has(transaction.hash)) continue;
+          transactionHashes.add(transaction.hash);
+
+          transaction = new TransactionData(transaction);
+          if (since !== undefined && getLastUpdateTime(transaction) < since) continue;
+          transaction.setStatus();
+          yield transaction;
+        }
+      } catch (error) {
+        throw createNodeError(error, `Error reading transaction history from fullnode`);
+      }
+    }
+  }
+
   export async function getFullNodeFees(
-    amountToTransfer: number,
+    amountToTransfer: BigDecimalValue,
     userHash: string,
     userSignature: SignatureData,
     network: Network = 'mainnet',
     feeIncluded?: boolean
   ) {
     try {
-      const response = await axios.put(`${nodeUrl[network].fullNode}/fee`, {
-        originalAmount: amountToTransfer,
+      const response = await requestNode(network, 'fullNode', 'put', '/fee', {
+        originalAmount: utils.parseAmount(amountToTransfer),
         userHash,
         userSignature,
         feeIncluded,
       });
       return new BaseTransactionData(response.data.fullNodeFee);
     } catch (error) {
-      const errorMessage = getErrorMessage(error);
-      throw new NodeError(errorMessage, { debugMessage: `Error getting full node fees for amount ${amountToTransfer}` });
+      throw createNodeError(error, `Error getting full node fees for amount ${amountToTransfer}`);
     }
   }
 
   export async function getNetworkFees(fullNodeFeeData: BaseTransactionData, userHash: string, network: Network = 'mainnet', feeIncluded?: boolean) {
     try {
-      const response = await axios.put(`${nodeUrl[network].trustScoreNode}/networkFee`, {
+      const response = await requestNode(network, 'trustScoreNode', 'put', '/networkFee', {
         fullNodeFeeData,
         userHash,
         feeIncluded,
       });
       return new BaseTransactionData(response.data.networkFeeData);
     } catch (error) {
-      const errorMessage = getErrorMessage(error);
-      throw new NodeError(errorMessage, { debugMessage: `Error getting network fee` });
+      throw createNodeError(error, `Error getting network fee`);
     }
   }
 
@@ -147,14 +202,49 @@ export namespace nodeUtils {
     let response;
     try {
       for (let i = 1; i < iteration; i++) {
-        response = await axios.post(`${nodeUrl[network].trustScoreNode}/networkFee`, validationNetworkFeeMessage);
+        response = await requestNode(network, 'trustScoreNode', 'post', '/networkFee', validationNetworkFeeMessage);
         validationNetworkFeeMessage.networkFeeData = response.data.networkFeeData;
       }
       if (response && response.data) return new BaseTransactionData(response.data.networkFeeData);
       else throw new Error(`Error in createMiniConsensus: No response`);
     } catch (error) {
-      const errorMessage = getErrorMessage(error);
-      throw new NodeError(errorMessage, { debugMessage: `Error in createMiniConsensus` });
+      throw createNodeError(error, `Error in createMiniConsensus`);
+    }
+  }
+
+  export async function getRollingReserveFees(
+    originalAmount: BigDecimalValue,
+    merchantHash: string,
+    networkFeeData: BaseTransactionData,
+    network: Network = 'mainnet'
+  ) {
+    try {
+      const response = await requestNode(network, 'trustScoreNode', 'post', '/rollingReserve', {
+        merchantHash,
+        originalAmount: utils.parseAmount(originalAmount),
+        networkFeeData,
+      });
+      return new BaseTransactionData(response.data.rollingReserveData);
+    } catch (error) {
+      throw createNodeError(error, `Error getting rolling reserve for merchant ${merchantHash}`);
+    }
+  }
+
+  export async function validateRollingReserve(
+    merchantHash: string,
+    networkFeeData: BaseTransactionData,
+    rollingReserveData: BaseTransactionData,
+    network: Network = 'mainnet'
+  ) {
+    try {
+      const response = await requestNode(network, 'trustScoreNode', 'post', '/rollingReserveValidation', {
+        merchantHash,
+        networkFeeData,
+        rollingReserveData,
+      });
+      return new BaseTransactionData(response.data.rollingReserveData);
+    } catch (error) {
+      throw createNodeError(error, `Error validating rolling reserve for merchant ${merchantHash}`);
     }
   }
 
@@ -169,27 +259,27 @@ export namespace nodeUtils {
       transactionHash,
       userSignature,
     };
+    let response;
     try {
-      const response = await axios.post(`${nodeUrl[network].trustScoreNode}/transactiontrustscore`, trustScoreMessage);
-      return response.data.transactionTrustScoreData;
+      response = await requestNode(network, 'trustScoreNode', 'post', '/transactiontrustscore', trustScoreMessage);
     } catch (error) {
-      const errorMessage = getErrorMessage(error);
-      throw new NodeError(errorMessage, { debugMessage: `Error getting trust score from trust score node` });
+      throw createNodeError(error, `Error getting trust score from trust score node`);
     }
+    return validateTransactionTrustScoreData(response.data, transactionHash);
   }
 
   export async function sendTransaction(transaction: Transaction, network: Network = 'mainnet') {
+    let response;
     try {
-      const response = await axios.put(`${nodeUrl[network].fullNode}/transaction`, transaction);
-      return response.data;
+      response = await requestNode(network, 'fullNode', 'put', '/transaction', transaction);
     } catch (error) {
-      const errorMessage = getErrorMessage(error);
-      throw new NodeError(errorMessage, { debugMessage: `Error sending transaction with hash ${transaction.getHash()}` });
+      throw createNodeError(error, `Error sending transaction with hash ${transaction.getHash()}`);
     }
+    return validateSendTransactionResponse(response.data, transaction.getHash());
   }
 
   export function getSocketUrl(network: Network = 'mainnet') {
-    return nodeUrl[network].fullNode + '/websocket';
+    return networkUtils.getSocketUrl(network);
   }
 
   export async function setTrustScore(apiKey: string, userHash: string, network: Network = 'mainnet') {
@@ -197,18 +287,216 @@ export namespace nodeUtils {
     const headers = { 'exchange-api-key': apiKey };
     const setTrustScoreMessage = {
       userHash,
-      network,
+      network: networkUtils.getNetworkName(network),
     };
     try {
-      const response = await axios.put(`${nodeUrl[network].api}/exchange/trustscore`, setTrustScoreMessage, { headers });
+      const response = await requestNode(network, 'api', 'put', '/exchange/trustscore', setTrustScoreMessage, { headers });
       return response.data.trustScore;
     } catch (error) {
-      const errorMessage = error.response && error.response.data ? error.response.data.errorMessage : error.message;
-      throw new NodeError(errorMessage, { debugMessage: `Error setting trust score at trust score node` });
+      throw createNodeError(error, `Error setting trust score at trust score node`);
     }
   }
 
+  async function requestNode(
+    network: Network,
+    nodeType: NodeType,
+    method: NodeTransportMethod,
+    path: string,
+    data?: any,
+    options: NodeRequestOptions = {}
+  ) {
+    const { idempotent = false, headers } = options;
+    const transport = getTransport(network);
+    const timeout = networkUtils.getRequestTimeout(network);
+    return await requestWithFailover(network, nodeType, idempotent, async nodeUrl => {
+      const request: NodeTransportRequest = { method, url: `${nodeUrl}${path}`, data, headers, timeout };
+      const response = await transport.request(request).catch(error => {
+        throw new NodeRequestFailure(error.message, request, undefined, error);
+      });
+      if (!isSuccessStatus(response.status)) throw new NodeRequestFailure(`Request failed with status code ${response.status}`, request, response);
+      return response;
+    });
+  }
+
+  async function streamNode(network: Network, nodeType: NodeType, method: NodeTransportMethod, path: string, data?: any) {
+    const transport = getTransport(network);
+    const timeout = networkUtils.getRequestTimeout(network);
+    return await requestWithFailover(network, nodeType, true, async nodeUrl => {
+      const request: NodeTransportRequest = { method, url: `${nodeUrl}${path}`, data, timeout };
+      try {
+        if (!transport.stream) {
+          const { status, data: responseData, headers } = await transport.request(request);
+          if (!isSuccessStatus(status))
+            throw new NodeRequestFailure(`Request failed with status code ${status}`, request, { status, data: responseData, headers });
+          return { status, headers, body: streamUtils.toChunks(responseData) };
+        }
+        const response = await transport.stream(request);
+        if (!isSuccessStatus(response.status)) {
+          const text = await streamUtils.readStream(response.body);
+          const { status, headers } = response;
+          throw new NodeRequestFailure(`Request failed with status code ${status}`, request, { status, data: parseErrorBody(text), headers });
+        }
+        return response;
+      } catch (error) {
+        throw error instanceof NodeRequestFailure ? error : new NodeRequestFailure(error.message, request, undefined, error);
+      }
+    });
+  }
+
+  // Idempotent calls are retried with exponential backoff on node failures (network errors, timeouts, 429 and 5xx),
+  // each attempt going to the healthiest node not tried yet, so every node is tried at least once. Non idempotent calls (fees, mini consensus,
+  // trust score and sending transactions) are never repeated once a node may have received them: they only fail over
+  // to the next node when the connection to the previous one could not be established.
+  async function requestWithFailover<T>(network: Network, nodeType: NodeType, idempotent: boolean, send: (nodeUrl: string) => Promise<T>) {
+    const { retries, minDelay, maxDelay, factor, unhealthyNodeCooldown } = networkUtils.getRetryOptions(network);
+    const nodeUrls = networkUtils.getNodeUrls(nodeType, network);
+    const maxAttempts = idempotent ? Math.max(retries + 1, nodeUrls.length) : nodeUrls.length;
+    const triedNodeUrls = new Set<string>();
+    let lastError;
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const nodeUrlsByHealth = getNodeUrlsByHealth(nodeUrls);
+      const nodeUrl = nodeUrlsByHealth.find(url => !triedNodeUrls.has(url)) || nodeUrlsByHealth[0];
+      triedNodeUrls.add(nodeUrl);
+      try {
+        const response = await send(nodeUrl);
+        unhealthyNodeMap.delete(nodeUrl);
+        return response;
+      } catch (error) {
+        lastError = error;
+        if (!isNodeFailure(error)) throw error;
+        unhealthyNodeMap.set(nodeUrl, Date.now() + unhealthyNodeCooldown);
+        if (!idempotent && !isConnectionFailure(error)) throw error;
+        if (idempotent && attempt < maxAttempts - 1) await sleep(Math.min(minDelay * Math.pow(factor, attempt), maxDelay));
+      }
+    }
+    throw lastError;
+  }
+
+  function getTransport(network: Network) {
+    return networkUtils.getNetworkConfig(network).transport || defaultTransport;
+  }
+
+  function isSuccessStatus(status: number) {
+    return status >= 200 && status < 300;
+  }
+
+  function parseErrorBody(text: string) {
+    try {
+      return JSON.parse(text);
+    } catch (unusedError) {
+      return text;
+    }
+  }
+
+  function getLastUpdateTime(transaction: TransactionData) {
+    return Math.max(transaction.createTime || 0, transaction.attachmentTime || 0, transaction.transactionConsensusUpdateTime || 0);
+  }
+
+  // Unhealthy nodes come last, the ones closest to the end of their cooldown first
+  function getNodeUrlsByHealth(nodeUrls: string[]) {
+    const now = Date.now();
+    const getCooldownEnd = (nodeUrl: string) => Math.max(unhealthyNodeMap.get(nodeUrl) || 0, now);
+    return [...nodeUrls].sort((nodeUrl1, nodeUrl2) => getCooldownEnd(nodeUrl1) - getCooldownEnd(nodeUrl2));
+  }
+
+  function isNodeFailure(error: any) {
+    if (!error.response) return true;
+    const { status } = error.response;
+    return status === 429 || status >= 500;
+  }
+
+  function isConnectionFailure(error: any) {
+    return !error.response && connectionErrorCodes.includes(error.code);
+  }
+
+  function sleep(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  function validateAddressBalanceMap(data: any, addresses: string[]): AddressBalanceMap {
+    const addressBalanceMap = data && data.addressesBalance;
+    if (!isObject(addressBalanceMap)) throw new MalformedResponseError(`Missing addressesBalance in full node balance response`);
+    addresses.forEach(address => {
+      const addressBalance = addressBalanceMap[address];
+      if (!isObject(addressBalance)) throw new MalformedResponseError(`Missing balance of address ${address} in full node balance response`);
+      const { addressBalance: balance, addressPreBalance: preBalance } = addressBalance;
+      if (!isNumeric(balance) || !isNumeric(preBalance))
+        throw new MalformedResponseError(
+          `Invalid balance ${balance} or pre balance ${preBalance} of address ${address} in full node balance response`
+        );
+    });
+    return addressBalanceMap;
+  }
+
+  function validateAddressExistenceMap(data: any, addresses: string[]): AddressExistenceMap {
+    const addressExistenceMap = data && data.addresses;
+    if (!isObject(addressExistenceMap)) throw new MalformedResponseError(`Missing addresses in full node address response`);
+    addresses.forEach(address => {
+      if (typeof addressExistenceMap[address] !== 'boolean')
+        throw new MalformedResponseError(`Missing existence of address ${address} in full node address response`);
+    });
+    return addressExistenceMap;
+  }
+
+  function validateUserTrustScore(data: any): UserTrustScoreResponse {
+    if (!isObject(data)) throw new MalformedResponseError(`Empty user trust score response`);
+    if (typeof data.trustScore !== 'number') throw new MalformedResponseError(`Invalid trust score ${data.trustScore} in user trust score response`);
+    return data;
+  }
+
+  function validateTransactionTrustScoreData(data: any, transactionHash: string): TransactionTrustScoreData {
+    const transactionTrustScoreData = data && data.transactionTrustScoreData;
+    if (!isObject(transactionTrustScoreData))
+      throw new MalformedResponseError(`Missing transactionTrustScoreData in trust score response for transaction ${transactionHash}`);
+    if (typeof transactionTrustScoreData.trustScore !== 'number')
+      throw new MalformedResponseError(
+        `Invalid trust score ${transactionTrustScoreData.trustScore} in trust score response for transaction ${transactionHash}`
+      );
+    return transactionTrustScoreData;
+  }
+
+  function validateSendTransactionResponse(data: any, transactionHash: string): SendTransactionResponse {
+    if (!isObject(data) || typeof data.status !== 'string')
+      throw new MalformedResponseError(`Missing status in full node response for sent transaction ${transactionHash}`);
+    return data;
+  }
+
+  function isObject(value: any) {
+    return typeof value === 'object' && value !== null;
+  }
+
+  function isNumeric(value: any) {
+    if (typeof value === 'number') return isFinite(value);
+    return typeof value === 'string' && value.trim() !== '' && isFinite(Number(value));
+  }
+
+  function createNodeError(error: any, debugMessage: string) {
+    if (error instanceof NodeError) return error;
+    const errorMessage = getErrorMessage(error);
+    if (!(error instanceof NodeRequestFailure)) return new NodeError(errorMessage, { debugMessage, cause: error });
+
+    const { request, response } = error;
+    const options: NodeErrorOptions = {
+      debugMessage,
+      cause: error.cause || error,
+      status: response && response.status,
+      endpoint: request.url,
+      requestBody: request.data,
+    };
+    if (!response) return isTimeout(error) ? new NodeTimeoutError(errorMessage, options) : new NodeUnavailableError(errorMessage, options);
+    if (isNodeFailure(error)) return new NodeUnavailableError(errorMessage, options);
+    if (insufficientBalanceRegex.test(errorMessage)) return new InsufficientBalanceError(errorMessage, options);
+    if (response.status === 401 || invalidSignatureRegex.test(errorMessage)) return new InvalidSignatureError(errorMessage, options);
+    return new ValidationRejectedError(errorMessage, options);
+  }
+
+  function isTimeout(error: NodeRequestFailure) {
+    return timeoutErrorCodes.includes(error.code!) || /timeout/i.test(error.message);
+  }
+
   function getErrorMessage(error: any) {
-    return error.response && error.response.data ? error.response.data.message : error.message;
+    const data = error.response && error.response.data;
+    if (isObject(data)) return data.message || data.errorMessage || error.message;
+    return typeof data === 'string' && data ? data : error.message;
   }
 }
@@ -0,0 +1,72 @@
+export type StreamChunk = Uint8Array | string;
+
+// Parses the top level elements of a json array one by one. Whatever follows the last complete element is ignored,
+// so an array that is cut or not closed by the node still yields every element received in full.
+class JsonArrayParser<T> {
+  private arrayStarted = false;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private element = '';
+
+  public write(text: string) {
+    const elements: T[] = [];
+    let elementStart = this.depth > 0 ? 0 : -1;
+    for (let i = 0; i < text.length; i++) {
+      const char = text.charAt(i);
+      if (!this.arrayStarted) {
+        if (char === '[') this.arrayStarted = true;
+        else if (!/\s/.test(char)) throw new Error(`Expected json array but received: ${char}`);
+        continue;
+      }
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === '\\') this.escaped = true;
+        else if (char === '"') this.inString = false;
+        continue;
+      }
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        if (this.depth === 0) elementStart = i;
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        if (this.depth === 0) continue;
+        this.depth--;
+        if (this.depth === 0) {
+          elements.push(JSON.parse(this.element + text.substring(elementStart, i + 1)));
+          this.element = '';
+          elementStart = -1;
+        }
+      }
+    }
+    if (elementStart !== -1) this.element += text.substring(elementStart);
+    return elements;
+  }
+}
+
+export async function* parseJsonArrayStream<T = any>(chunks: AsyncIterable<StreamChunk>): AsyncIterableIterator<T> {
+  const parser = new JsonArrayParser<T>();
+  const textDecoder = new TextDecoder();
+  for await (const chunk of chunks) {
+    const text = typeof chunk === 'string' ? chunk : textDecoder.decode(chunk, { stream: true });
+    yield* parser.write(text);
+  }
+  yield* parser.write(textDecoder.decode());
+}
+
+export async function* toChunks(data: any): AsyncIterableIterator<StreamChunk> {
+  if (data === undefined || data === null) return;
+  if (typeof data === 'string' || data instanceof Uint8Array) yield data;
+  else if (typeof data[Symbol.asyncIterator] === 'function') yield* data;
+  else yield JSON.stringify(data);
+}
+
+export async function readStream(chunks: AsyncIterable<StreamChunk>) {
+  const textDecoder = new TextDecoder();
+  let text = '';
+  for await (const chunk of chunks) {
+    text += typeof chunk === 'string' ? chunk : textDecoder.decode(chunk, { stream: true });
+  }
+  return text + textDecoder.decode();
+}
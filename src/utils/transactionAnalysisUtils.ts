@@ -0,0 +1,175 @@
+import { BigDecimal, BigDecimalValue, parseAmount } from './utils';
+import { BaseTransactionName, feeBaseTransactionNames } from '../baseTransaction';
+import { TransactionData, TransactionStatus, TransactionType } from '../transaction';
+import { BaseWallet } from '../wallet';
+
+export type TransactionDirection = 'incoming' | 'outgoing' | 'self' | 'unrelated';
+
+export interface TransactionFees {
+  fullNodeFee: BigDecimal;
+  networkFee: BigDecimal;
+  rollingReserve: BigDecimal;
+  total: BigDecimal;
+}
+
+export interface TransactionCounterparty {
+  addressHex: string;
+  amount: BigDecimal;
+}
+
+export interface TransactionAnalysis {
+  hash: string;
+  type: TransactionType;
+  direction: TransactionDirection;
+  netAmount: BigDecimal;
+  sentAmount: BigDecimal;
+  receivedAmount: BigDecimal;
+  fees: TransactionFees;
+  feesPaidByWallet: boolean;
+  counterparties: TransactionCounterparty[];
+  description: string;
+  status: TransactionStatus;
+  createTime: number;
+}
+
+export type TransactionSortField = 'createTime' | 'amount';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface TransactionQuery {
+  address?: string;
+  direction?: TransactionDirection | TransactionDirection[];
+  type?: TransactionType | TransactionType[];
+  status?: TransactionStatus;
+  fromTime?: number;
+  toTime?: number;
+  minAmount?: BigDecimalValue;
+  maxAmount?: BigDecimalValue;
+  sortBy?: TransactionSortField;
+  order?: SortOrder;
+  offset?: number;
+  limit?: number;
+}
+
+export interface TransactionQueryResult {
+  transactions: TransactionData[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+export const defaultTransactionQueryLimit = 50;
+
+// Amounts are from the wallet point of view, the net amount of an outgoing transaction is negative and includes the fees.
+// Counterparty amounts are what each other address spent (negative) or received (positive) in the transaction.
+export function analyzeTransaction(transactionData: TransactionData, wallet: BaseWallet | Iterable<string>): TransactionAnalysis {
+  const walletAddresses = new Set(wallet instanceof BaseWallet ? wallet.getAddressHexes() : wallet);
+  const zero = new BigDecimal('0');
+  let sentAmount = zero;
+  let receivedAmount = zero;
+  const fees = { fullNodeFee: zero, networkFee: zero, rollingReserve: zero, total: zero };
+  const counterpartyMap = new Map<string, BigDecimal>();
+  let hasWalletOutput = false;
+  let hasOtherOutput = false;
+
+  transactionData.baseTransactions.forEach(({ addressHash, amount, name }) => {
+    const decimalAmount = new BigDecimal(amount);
+    const isWalletAddress = walletAddresses.has(addressHash);
+    if (feeBaseTransactionNames.includes(name)) {
+      if (name === BaseTransactionName.FULL_NODE_FEE) fees.fullNodeFee = fees.fullNodeFee.add(decimalAmount);
+      else if (name === BaseTransactionName.NETWORK_FEE) fees.networkFee = fees.networkFee.add(decimalAmount);
+      else fees.rollingReserve = fees.rollingReserve.add(decimalAmount);
+      fees.total = fees.total.add(decimalAmount);
+    } else if (isWalletAddress) {
+      if (decimalAmount.isNegative()) sentAmount = sentAmount.subtract(decimalAmount);
+      else {
+        receivedAmount = receivedAmount.add(decimalAmount);
+        hasWalletOutput = true;
+      }
+    } else {
+      counterpartyMap.set(addressHash, (counterpartyMap.get(addressHash) || zero).add(decimalAmount));
+      if (!decimalAmount.isNegative()) hasOtherOutput = true;
+    }
+  });
+
+  const feesPaidByWallet = !sentAmount.isZero();
+  let direction: TransactionDirection = 'unrelated';
+  if (feesPaidByWallet) direction = hasOtherOutput ? 'outgoing' : 'self';
+  else if (hasWalletOutput) direction = 'incoming';
+
+  return {
+    hash: transactionData.hash,
+    type: transactionData.type,
+    direction,
+    netAmount: receivedAmount.subtract(sentAmount),
+    sentAmount,
+    receivedAmount,
+    fees,
+    feesPaidByWallet,
+    counterparties: [...counterpartyMap].map(([addressHex, amount]) => ({ addressHex, amount })),
+    description: transactionData.transactionDescription,
+    status: transactionData.transactionConsensusUpdateTime ? 'confirmed' : 'pending',
+    createTime: transactionData.createTime,
+  };
+}
+
+export function analyzeTransactions(transactions: Iterable<TransactionData>, wallet: BaseWallet | Iterable<string>) {
+  const walletAddresses = wallet instanceof BaseWallet ? wallet.getAddressHexes() : [...wallet];
+  return [...transactions].map(transactionData => analyzeTransaction(transactionData, walletAddresses));
+}
+
+// Times are create times in seconds and both time and amount ranges are inclusive.
+// The amount of a transaction is the absolute net amount of the wallet, ties of the sort are ordered by hash to keep pages stable.
+export function queryTransactions(
+  transactions: Iterable<TransactionData>,
+  wallet: BaseWallet | Iterable<string>,
+  query: TransactionQuery = {}
+): TransactionQueryResult {
+  const { address, status, fromTime, toTime, sortBy = 'createTime', order = 'desc', offset = 0, limit = defaultTransactionQueryLimit } = query;
+  if (!Number.isInteger(offset) || offset < 0) throw new Error(`Invalid offset ${offset}`);
+  if (!Number.isInteger(limit) || limit <= 0) throw new Error(`Invalid limit ${limit}`);
+  const directions = toArray(query.direction);
+  const types = toArray(query.type);
+  const minAmount = query.minAmount !== undefined ? parseAmount(query.minAmount) : undefined;
+  const maxAmount = query.maxAmount !== undefined ? parseAmount(query.maxAmount) : undefined;
+  const walletAddresses = wallet instanceof BaseWallet ? wallet.getAddressHexes() : [...wallet];
+
+  const results = [...transactions]
+    .filter(
+      transactionData =>
+        (!address || transactionData.baseTransactions.some(({ addressHash }) => addressHash === address)) &&
+        (!types || types.includes(transactionData.type)) &&
+        (fromTime === undefined || transactionData.createTime >= fromTime) &&
+        (toTime === undefined || transactionData.createTime <= toTime)
+    )
+    .map(transactionData => {
+      const { direction, netAmount, status: transactionStatus } = analyzeTransaction(transactionData, walletAddresses);
+      return { transactionData, direction, amount: new BigDecimal(netAmount.abs()), status: transactionStatus };
+    })
+    .filter(
+      ({ direction, amount, status: transactionStatus }) =>
+        (!directions || directions.includes(direction)) &&
+        (!status || transactionStatus === status) &&
+        (!minAmount || amount.compareTo(minAmount) >= 0) &&
+        (!maxAmount || amount.compareTo(maxAmount) <= 0)
+    );
+
+  const orderSign = order === 'asc' ? 1 : -1;
+  results.sort((first, second) => {
+    const comparison =
+      sortBy === 'amount' ? first.amount.compareTo(second.amount) : first.transactionData.createTime - second.transactionData.createTime;
+    return orderSign * (comparison || first.transactionData.hash.localeCompare(second.transactionData.hash));
+  });
+
+  return {
+    transactions: results.slice(offset, offset + limit).map(({ transactionData }) => transactionData),
+    total: results.length,
+    offset,
+    limit,
+  };
+}
+
+function toArray<T>(value?: T | T[]) {
+  if (value === undefined) return;
+  return Array.isArray(value) ? value : [value];
+}
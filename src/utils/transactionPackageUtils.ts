@@ -0,0 +1,120 @@
+import { sha256 } from 'js-sha256';
+import { Network, utcNowToSeconds } from './utils';
+import { networkUtils } from './networkUtils';
+import { createTransaction } from './transactionUtils';
+import { Transaction, TransactionJSON } from '../transaction';
+import { IndexedWallet } from '../wallet';
+import { IndexedAddress } from '../address';
+import { NodeClient } from '../nodeClient';
+import { TransactionPackageError } from '../cotiError';
+
+export type TransactionPackageStage = 'unsigned' | 'signed';
+
+export interface TransactionPackage {
+  format: string;
+  version: number;
+  stage: TransactionPackageStage;
+  network: string;
+  createTime: number;
+  transaction: TransactionJSON;
+  checksum: string;
+}
+
+export interface ImportTransactionPackageOptions {
+  stage?: TransactionPackageStage;
+  network?: Network;
+  maxFeeAge?: number;
+}
+
+export type TransactionPackageSigner<T extends IndexedAddress> =
+  | { userPrivateKey: string; inputPrivateKeys: string[] }
+  | { wallet: IndexedWallet<T> };
+
+export const transactionPackageFormat = 'coti-transaction-package';
+export const transactionPackageVersion = 1;
+
+// Fee base transactions older than this are rejected by the full nodes, in seconds
+const defaultMaxFeeAge = 600;
+
+export async function prepareTransaction(parameterObject: Parameters<typeof createTransaction>[0]) {
+  const transaction = await createTransaction(parameterObject);
+  return exportTransactionPackage(transaction, parameterObject.network);
+}
+
+export function exportTransactionPackage(transaction: Transaction, network: Network = 'mainnet') {
+  const transactionPackage = {
+    format: transactionPackageFormat,
+    version: transactionPackageVersion,
+    stage: <TransactionPackageStage>(transaction.isSigned() ? 'signed' : 'unsigned'),
+    network: networkUtils.getNetworkName(network),
+    createTime: utcNowToSeconds(),
+    transaction: transaction.toJSON(),
+  };
+  const checksum = getChecksum(transactionPackage);
+
+  return JSON.stringify({ ...transactionPackage, checksum }, null, 2);
+}
+
+export function importTransactionPackage(content: string, options: ImportTransactionPackageOptions = {}) {
+  const { stage, network, maxFeeAge = defaultMaxFeeAge } = options;
+  let transactionPackage: TransactionPackage;
+  try {
+    transactionPackage = JSON.parse(content);
+  } catch (error) {
+    throw new TransactionPackageError('Transaction package is not valid json', { cause: error });
+  }
+  if (!transactionPackage || transactionPackage.format !== transactionPackageFormat)
+    throw new TransactionPackageError('Unknown transaction package format');
+  if (transactionPackage.version !== transactionPackageVersion)
+    throw new TransactionPackageError(`Unsupported transaction package version ${transactionPackage.version}`);
+
+  const { checksum, ...packageContent } = transactionPackage;
+  if (checksum !== getChecksum(packageContent)) throw new TransactionPackageError('Transaction package checksum mismatch');
+  if (stage && transactionPackage.stage !== stage)
+    throw new TransactionPackageError(`Expected ${stage} transaction package but received ${transactionPackage.stage}`);
+  if (network && transactionPackage.network !== networkUtils.getNetworkName(network))
+    throw new TransactionPackageError(`Transaction package is for network ${transactionPackage.network}`);
+
+  let transaction: Transaction;
+  try {
+    transaction = Transaction.fromJSON(transactionPackage.transaction);
+  } catch (error) {
+    throw new TransactionPackageError(`Invalid transaction at transaction package: ${error.message}`, { cause: error });
+  }
+  if (transactionPackage.stage === 'signed' && !transaction.isSigned())
+    throw new TransactionPackageError('Signed transaction package is missing sender signature');
+  checkFeeAge(transaction, maxFeeAge);
+
+  return { network: transactionPackage.network, stage: transactionPackage.stage, transaction };
+}
+
+export async function signTransactionPackage<T extends IndexedAddress>(
+  content: string,
+  signer: TransactionPackageSigner<T>,
+  options: ImportTransactionPackageOptions = {}
+) {
+  const { network, transaction } = importTransactionPackage(content, { ...options, stage: 'unsigned' });
+  if ('wallet' in signer) await transaction.signTransaction(signer.wallet);
+  else transaction.signWithPrivateKeys(signer.userPrivateKey, signer.inputPrivateKeys);
+
+  return exportTransactionPackage(transaction, network);
+}
+
+export async function submitTransactionPackage(content: string, nodeClient: NodeClient, options: ImportTransactionPackageOptions = {}) {
+  const { transaction } = importTransactionPackage(content, { ...options, stage: 'signed', network: nodeClient.network });
+  return await nodeClient.sendTransaction(transaction);
+}
+
+function getChecksum(packageContent: Omit<TransactionPackage, 'checksum'>) {
+  const { format, version, stage, network, createTime, transaction } = packageContent;
+  return sha256(JSON.stringify({ format, version, stage, network, createTime, transaction }));
+}
+
+function checkFeeAge(transaction: Transaction, maxFeeAge: number) {
+  const feeBaseTransactions = transaction.getBaseTransactions().filter(baseTransaction => baseTransaction.isFee());
+  if (!feeBaseTransactions.length) throw new TransactionPackageError('Transaction package is missing fee data');
+
+  const feeCreateTime = Math.min(...feeBaseTransactions.map(baseTransaction => baseTransaction.getCreateTime()));
+  if (utcNowToSeconds() - feeCreateTime > maxFeeAge)
+    throw new TransactionPackageError(`Fee data of transaction ${transaction.getHash()} is stale, the transaction should be prepared again`);
+}
@@ -1,30 +1,60 @@
-import { BigDecimal, Network } from './utils';
+import { BigDecimal, BigDecimalValue, Network, parseAmount } from './utils';
 import * as cryptoUtils from './cryptoUtils';
 import { FullNodeFeeSignature, TransactionTrustScoreSignature } from '../signature';
 import { PrivateKey } from '../ecKeyPair';
 import { nodeUtils } from './nodeUtils';
-import { BaseTransaction, BaseTransactionName, BaseTransactionData } from '../baseTransaction';
-import { Transaction } from '../transaction';
+import { networkUtils } from './networkUtils';
+import { NodeTransport } from '../nodeTransport';
+import { BaseTransaction, BaseTransactionName, BaseTransactionData, Item } from '../baseTransaction';
+import { Transaction, TransactionType } from '../transaction';
 import { IndexedWallet } from '../wallet';
 import { IndexedAddress } from '../address';
-
-const amountRegex = /^\d+(\.\d{1,8})?$/;
+import { AddressBalanceMap } from '../nodeResponse';
+import { InsufficientBalanceError } from '../cotiError';
 
 type KeyPair = cryptoUtils.KeyPair;
 
+export interface TransactionOutput {
+  amount: BigDecimalValue;
+  receiverDescription?: string;
+}
+
+export type TransactionOutputMap = Map<string, BigDecimalValue | TransactionOutput>;
+
+export interface FeeEstimate {
+  fullNodeFee: BigDecimal;
+  networkFee: BigDecimal;
+  totalDebit: BigDecimal;
+  netAmount: BigDecimal;
+}
+
 export async function createTransaction<T extends IndexedAddress>(parameterObject: {
   userPrivateKey?: string;
   wallet?: IndexedWallet<T>;
-  inputMap: Map<string, number>;
+  inputMap: Map<string, BigDecimalValue>;
   feeAddress?: string;
-  destinationAddress: string;
+  destinationAddress?: string;
+  outputMap?: TransactionOutputMap;
   description?: string;
   network?: Network;
   feeIncluded?: boolean;
+  transport?: NodeTransport;
 }) {
-  const { userPrivateKey, wallet, inputMap, feeAddress, destinationAddress, description, network, feeIncluded = false } = parameterObject;
+  const {
+    userPrivateKey,
+    wallet,
+    inputMap,
+    feeAddress,
+    destinationAddress,
+    outputMap,
+    description,
+    feeIncluded = false,
+    transport,
+  } = parameterObject;
+  const network = networkUtils.withTransport(parameterObject.network, transport);
 
   if (!userPrivateKey && !wallet) throw Error('UserPrivateKey or wallet should be defined');
+  if (!destinationAddress === !outputMap) throw new Error('Either destinationAddress or outputMap should be defined');
   if (!feeIncluded) {
     if (!feeAddress) throw new Error(`Missing fee address`);
     if (!cryptoUtils.verifyAddressStructure(feeAddress)) throw new Error(`Invalid fee address: ${feeAddress}`);
@@ -34,61 +64,168 @@ export async function createTransaction<T extends IndexedAddress>(parameterObjec
 
   let originalAmount = new BigDecimal('0');
   let addresses = [];
+  const inputAmountMap = new Map<string, BigDecimal>();
 
   inputMap.forEach((amount, address) => {
     if (!cryptoUtils.verifyAddressStructure(address)) throw new Error(`Invalid address: ${address}`);
-    if (!amountRegex.test(amount.toString())) throw new Error(`Invalid amount ${amount} for address ${address}`);
-    const decimalAmount = new BigDecimal(amount.toString());
-    if (decimalAmount.compareTo(new BigDecimal('0')) <= 0) throw new Error(`Error sending transaction - input amount should be positive`);
+    const decimalAmount = getPositiveAmount(amount, `input address ${address}`);
     originalAmount = originalAmount.add(decimalAmount);
-    amount = Number(decimalAmount.stripTrailingZeros().toString());
+    inputAmountMap.set(address, decimalAmount);
     addresses.push(address);
   });
   if (!feeIncluded && !feeAddressInInputMap) addresses.push(feeAddress!);
 
+  const outputs = outputMap ? getOutputs(outputMap, originalAmount) : [{ address: destinationAddress!, amount: originalAmount }];
+
   const balanceObject = await nodeUtils.checkBalances(addresses, network);
 
   originalAmount = originalAmount.stripTrailingZeros();
 
-  let keyPair;
-  let userHash;
-  if (userPrivateKey) {
-    const privateKey = new PrivateKey(userPrivateKey);
-    keyPair = privateKey.keyPair;
-    userHash = privateKey.getPublicKey();
-  } else {
-    userHash = wallet?.getPublicHash();
-  }
+  const { keyPair, userHash } = getUserKeys(userPrivateKey, wallet);
 
-  let { fullNodeFee, networkFee } = await getFees(originalAmount, userHash!, keyPair, wallet, feeIncluded, network);
+  let { fullNodeFee, networkFee } = await getFees(originalAmount, userHash, keyPair, wallet, feeIncluded, network);
 
   if (!feeIncluded) {
-    const feeAmount = new BigDecimal(fullNodeFee.amount.toString()).add(new BigDecimal(networkFee.amount.toString()));
-    if (feeAddressInInputMap) {
-      const amount = inputMap.get(feeAddress!)!;
-      const feeIncludedAmount = feeAmount.add(new BigDecimal(amount.toString())).stripTrailingZeros();
-      inputMap.set(feeAddress!, Number(feeIncludedAmount.toString()));
-    } else inputMap.set(feeAddress!, Number(feeAmount.stripTrailingZeros().toString()));
+    const feeAmount = new BigDecimal(fullNodeFee.amount).add(new BigDecimal(networkFee.amount));
+    const inputAmount = inputAmountMap.get(feeAddress!);
+    inputAmountMap.set(feeAddress!, (inputAmount ? feeAmount.add(inputAmount) : feeAmount).stripTrailingZeros());
   }
 
   let baseTransactions: BaseTransaction[] = [];
 
-  inputMap.forEach((amount, address) => {
+  inputAmountMap.forEach((amount, address) => {
     addInputBaseTranction(balanceObject, address, amount, baseTransactions);
   });
 
-  networkFee = await nodeUtils.createMiniConsensus(userHash!, fullNodeFee, networkFee, network);
+  networkFee = await nodeUtils.createMiniConsensus(userHash, fullNodeFee, networkFee, network);
+
+  addOutputBaseTransactions(fullNodeFee, networkFee, outputs, baseTransactions, feeIncluded);
+
+  const transaction = new Transaction(baseTransactions, description, userHash);
+
+  await addTrustScoreToTransaction(transaction, userHash, keyPair, wallet, network);
+
+  return transaction;
+}
+
+export async function createPaymentTransaction<T extends IndexedAddress>(parameterObject: {
+  userPrivateKey?: string;
+  wallet?: IndexedWallet<T>;
+  inputAddress: string;
+  items: Item[];
+  amount?: BigDecimalValue;
+  encryptedMerchantName: string;
+  merchantHash: string;
+  merchantAddress: string;
+  description?: string;
+  network?: Network;
+  transport?: NodeTransport;
+}) {
+  const { userPrivateKey, wallet, inputAddress, items, amount, encryptedMerchantName, merchantHash, merchantAddress, description, transport } =
+    parameterObject;
+  const network = networkUtils.withTransport(parameterObject.network, transport);
+
+  if (!userPrivateKey && !wallet) throw Error('UserPrivateKey or wallet should be defined');
+  if (!cryptoUtils.verifyAddressStructure(inputAddress)) throw new Error(`Invalid address: ${inputAddress}`);
+  if (!cryptoUtils.verifyAddressStructure(merchantAddress)) throw new Error(`Invalid merchant address: ${merchantAddress}`);
+  if (!merchantHash) throw new Error(`Missing merchant hash`);
+  if (!encryptedMerchantName) throw new Error(`Missing encrypted merchant name`);
+
+  const paymentAmount = getItemsAmount(items);
+  if (amount !== undefined && paymentAmount.compareTo(parseAmount(amount)) !== 0)
+    throw new Error(`Error sending payment - items total ${paymentAmount} does not match payment amount ${amount}`);
+
+  const balanceObject = await nodeUtils.checkBalances([inputAddress], network);
+
+  const { keyPair, userHash } = getUserKeys(userPrivateKey, wallet);
 
-  addOutputBaseTransactions(originalAmount, fullNodeFee, networkFee, destinationAddress, baseTransactions, feeIncluded);
+  let { fullNodeFee, networkFee } = await getFees(paymentAmount, userHash, keyPair, wallet, true, network);
+  networkFee = await nodeUtils.createMiniConsensus(userHash, fullNodeFee, networkFee, network);
+  let rollingReserve = await nodeUtils.getRollingReserveFees(paymentAmount, merchantHash, networkFee, network);
+  rollingReserve = await nodeUtils.validateRollingReserve(merchantHash, networkFee, rollingReserve, network);
 
-  const transaction = new Transaction(baseTransactions, description, userHash!);
+  // The payer spends the items total, the fees and the rolling reserve are taken out of the merchant output
+  const amountRBT = paymentAmount
+    .subtract(new BigDecimal(fullNodeFee.amount))
+    .subtract(new BigDecimal(networkFee.amount))
+    .subtract(new BigDecimal(rollingReserve.amount));
+  if (amountRBT.compareTo(new BigDecimal('0')) <= 0) throw new Error(`Error sending payment - amount ${paymentAmount} does not cover the fees`);
 
-  await addTrustScoreToTransaction(transaction, userHash!, keyPair, wallet, network);
+  let baseTransactions: BaseTransaction[] = [];
+  addInputBaseTranction(
+    balanceObject,
+    inputAddress,
+    paymentAmount,
+    baseTransactions,
+    BaseTransactionName.PAYMENT_INPUT,
+    items,
+    encryptedMerchantName
+  );
+  baseTransactions.push(BaseTransaction.getBaseTransactionFromFeeData(fullNodeFee));
+  baseTransactions.push(BaseTransaction.getBaseTransactionFromFeeData(networkFee));
+  baseTransactions.push(BaseTransaction.getBaseTransactionFromFeeData(rollingReserve));
+  baseTransactions.push(new BaseTransaction(merchantAddress, amountRBT, BaseTransactionName.RECEIVER, undefined, undefined, paymentAmount));
+
+  const transaction = new Transaction(baseTransactions, description, userHash, TransactionType.PAYMENT);
+
+  await addTrustScoreToTransaction(transaction, userHash, keyPair, wallet, network);
 
   return transaction;
 }
 
-async function getFullNodeFeeSignature<T extends IndexedAddress>(originalAmount: number, keyPair?: KeyPair, wallet?: IndexedWallet<T>) {
+// Only requests the full node and network fees, without mini consensus and trust score, so no transaction is built
+export async function estimateFees<T extends IndexedAddress>(parameterObject: {
+  amount: BigDecimalValue;
+  userPrivateKey?: string;
+  wallet?: IndexedWallet<T>;
+  feeIncluded?: boolean;
+  network?: Network;
+}): Promise<FeeEstimate> {
+  const { amount, userPrivateKey, wallet, feeIncluded = false, network } = parameterObject;
+  if (!userPrivateKey && !wallet) throw Error('UserPrivateKey or wallet should be defined');
+  const originalAmount = getPositiveAmount(amount, 'fee estimation');
+
+  const { keyPair, userHash } = getUserKeys(userPrivateKey, wallet);
+  const fees = await getFees(originalAmount, userHash, keyPair, wallet, feeIncluded, network);
+  const fullNodeFee = new BigDecimal(fees.fullNodeFee.amount);
+  const networkFee = new BigDecimal(fees.networkFee.amount);
+  const totalFee = fullNodeFee.add(networkFee);
+
+  return {
+    fullNodeFee,
+    networkFee,
+    totalDebit: feeIncluded ? originalAmount : originalAmount.add(totalFee),
+    netAmount: feeIncluded ? originalAmount.subtract(totalFee) : originalAmount,
+  };
+}
+
+function getPositiveAmount(amount: BigDecimalValue, amountOf: string) {
+  const decimalAmount = parseAmount(amount);
+  if (decimalAmount.compareTo(new BigDecimal('0')) <= 0) throw new Error(`Invalid amount ${amount} of ${amountOf}, amount should be positive`);
+  return decimalAmount;
+}
+
+function getUserKeys<T extends IndexedAddress>(userPrivateKey?: string, wallet?: IndexedWallet<T>) {
+  if (userPrivateKey) {
+    const privateKey = new PrivateKey(userPrivateKey);
+    return { keyPair: privateKey.keyPair, userHash: privateKey.getPublicKey() };
+  }
+  return { keyPair: undefined, userHash: wallet!.getPublicHash() };
+}
+
+function getItemsAmount(items: Item[]) {
+  if (!items || !items.length) throw new Error(`Payment should have at least one item`);
+  return items
+    .reduce((itemsAmount, { itemId, itemPrice, itemName, itemQuantity }) => {
+      if (!Number.isInteger(itemId)) throw new Error(`Invalid item id ${itemId}`);
+      if (!itemName) throw new Error(`Missing name of item ${itemId}`);
+      if (!Number.isInteger(itemQuantity) || itemQuantity <= 0) throw new Error(`Invalid quantity ${itemQuantity} of item ${itemId}`);
+      return itemsAmount.add(getPositiveAmount(itemPrice, `item ${itemId}`).multiply(new BigDecimal(itemQuantity)));
+    }, new BigDecimal('0'))
+    .stripTrailingZeros();
+}
+
+async function getFullNodeFeeSignature<T extends IndexedAddress>(originalAmount: BigDecimal, keyPair?: KeyPair, wallet?: IndexedWallet<T>) {
   const fullNodeFeeSignature = new FullNodeFeeSignature(originalAmount);
   return keyPair ? fullNodeFeeSignature.signByKeyPair(keyPair) : await fullNodeFeeSignature.sign(wallet!);
 }
@@ -101,46 +238,77 @@ async function getFees<T extends IndexedAddress>(
   feeIncluded?: boolean,
   network?: Network
 ) {
-  const originalAmountInNumber = Number(originalAmount.toString());
-  const fullNodeFeeSignature = await getFullNodeFeeSignature(originalAmountInNumber, keyPair, wallet);
-  const fullNodeFee = await nodeUtils.getFullNodeFees(originalAmountInNumber, userHash, fullNodeFeeSignature, network, feeIncluded);
+  const fullNodeFeeSignature = await getFullNodeFeeSignature(originalAmount, keyPair, wallet);
+  const fullNodeFee = await nodeUtils.getFullNodeFees(originalAmount, userHash, fullNodeFeeSignature, network, feeIncluded);
   const networkFee = await nodeUtils.getNetworkFees(fullNodeFee, userHash, network, feeIncluded);
   return { fullNodeFee, networkFee };
 }
 
-function addInputBaseTranction(balanceObject: any, address: string, amount: number, baseTransactions: BaseTransaction[]) {
+function addInputBaseTranction(
+  balanceObject: AddressBalanceMap,
+  address: string,
+  amount: BigDecimal,
+  baseTransactions: BaseTransaction[],
+  name = BaseTransactionName.INPUT,
+  items?: Item[],
+  encryptedMerchantName?: string
+) {
   let { addressBalance, addressPreBalance } = balanceObject[address];
   const balance = new BigDecimal(`${addressBalance}`);
   const preBalance = new BigDecimal(`${addressPreBalance}`);
   const addressMaxAmount = preBalance.compareTo(balance) < 0 ? preBalance : balance;
-  const decimalAmount = new BigDecimal(amount.toString());
-  if (addressMaxAmount.compareTo(decimalAmount) < 0)
-    throw new Error(
-      `Error at create transaction - Trying to send ${decimalAmount}, current balance is ${addressMaxAmount}. Not enough balance in address: ${address}`
+  if (addressMaxAmount.compareTo(amount) < 0)
+    throw new InsufficientBalanceError(
+      `Error at create transaction - Trying to send ${amount}, current balance is ${addressMaxAmount}. Not enough balance in address: ${address}`
     );
-  const spendFromAddress = decimalAmount.multiply(new BigDecimal('-1'));
-  baseTransactions.push(new BaseTransaction(address, spendFromAddress, BaseTransactionName.INPUT));
+  const spendFromAddress = amount.multiply(new BigDecimal('-1'));
+  baseTransactions.push(new BaseTransaction(address, spendFromAddress, name, items, encryptedMerchantName));
+}
+
+function getOutputs(outputMap: TransactionOutputMap, originalAmount: BigDecimal) {
+  if (!outputMap.size) throw new Error(`Output map should not be empty`);
+  let outputsAmount = new BigDecimal('0');
+  const outputs: { address: string; amount: BigDecimal; receiverDescription?: string }[] = [];
+
+  outputMap.forEach((output, address) => {
+    const { amount, receiverDescription } = isTransactionOutput(output) ? output : { amount: output, receiverDescription: undefined };
+    if (!cryptoUtils.verifyAddressStructure(address)) throw new Error(`Invalid output address: ${address}`);
+    const decimalAmount = getPositiveAmount(amount, `output address ${address}`);
+    outputsAmount = outputsAmount.add(decimalAmount);
+    outputs.push({ address, amount: decimalAmount, receiverDescription });
+  });
+  if (outputsAmount.compareTo(originalAmount) !== 0)
+    throw new Error(`Error sending transaction - total output amount ${outputsAmount} differs from total input amount ${originalAmount}`);
+
+  return outputs;
 }
 
+function isTransactionOutput(output: BigDecimalValue | TransactionOutput): output is TransactionOutput {
+  return typeof output === 'object' && !BigDecimal.isDecimal(output);
+}
+
+// For fee included transactions the fees are taken out of the first output, the other outputs receive their full amount
 function addOutputBaseTransactions(
-  originalAmount: BigDecimal,
   fullNodeFee: BaseTransactionData,
   networkFee: BaseTransactionData,
-  destinationAddress: string,
+  outputs: { address: string; amount: BigDecimal; receiverDescription?: string }[],
   baseTransactions: BaseTransaction[],
   feeIncluded: boolean
 ) {
-  const amountRBT = feeIncluded
-    ? originalAmount.subtract(new BigDecimal(fullNodeFee.amount)).subtract(new BigDecimal(networkFee.amount))
-    : originalAmount;
-
-  const RBT = new BaseTransaction(destinationAddress, amountRBT, BaseTransactionName.RECEIVER, undefined, undefined, originalAmount);
   const fullNodeTransactionFee = BaseTransaction.getBaseTransactionFromFeeData(fullNodeFee);
   const transactionNetworkFee = BaseTransaction.getBaseTransactionFromFeeData(networkFee);
 
   baseTransactions.push(fullNodeTransactionFee);
   baseTransactions.push(transactionNetworkFee);
-  baseTransactions.push(RBT);
+
+  outputs.forEach(({ address, amount, receiverDescription }, index) => {
+    const amountRBT =
+      feeIncluded && index === 0 ? amount.subtract(new BigDecimal(fullNodeFee.amount)).subtract(new BigDecimal(networkFee.amount)) : amount;
+    if (amountRBT.compareTo(new BigDecimal('0')) <= 0)
+      throw new Error(`Error sending transaction - output amount ${amount} of address ${address} does not cover the fees`);
+
+    baseTransactions.push(new BaseTransaction(address, amountRBT, BaseTransactionName.RECEIVER, undefined, undefined, amount, receiverDescription));
+  });
 }
 
 async function getTransactionTrustScoreSignature<T extends IndexedAddress>(transactionHash: string, keyPair?: KeyPair, wallet?: IndexedWallet<T>) {
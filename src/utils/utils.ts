@@ -1,10 +1,12 @@
 import * as moment from 'moment';
 import Decimal from 'decimal.js';
 
-export type Network = 'mainnet' | 'testnet';
+export { Network, NetworkConfig } from './networkUtils';
 
 export type BigDecimalValue = Decimal.Value;
 
+const maxAmountDecimalPlaces = 8;
+
 export class BigDecimal extends Decimal {
   constructor(n: BigDecimalValue) {
     super(n);
@@ -33,6 +35,28 @@ export class BigDecimal extends Decimal {
   public divide(other: BigDecimal) {
     return new BigDecimal(super.div(other));
   }
+
+  // Amounts are hashed and signed by their string, which should never be in exponential notation
+  public toString() {
+    return this.toFixed();
+  }
+
+  public toJSON() {
+    return this.toFixed();
+  }
+}
+
+export function parseAmount(amount: BigDecimalValue) {
+  let decimalAmount: BigDecimal;
+  try {
+    decimalAmount = new BigDecimal(amount);
+  } catch {
+    throw new Error(`Invalid amount ${amount}`);
+  }
+  if (!decimalAmount.isFinite()) throw new Error(`Invalid amount ${amount}`);
+  if (decimalAmount.decimalPlaces() > maxAmountDecimalPlaces)
+    throw new Error(`Invalid amount ${amount}, amounts can have at most ${maxAmountDecimalPlaces} decimal places`);
+  return decimalAmount.stripTrailingZeros();
 }
 
 export function utcNowToSeconds() {
@@ -89,6 +113,9 @@ export function numberToByteArray(num: number, byteLength: number) {
   return bytes;
 }
 
+/**
+ * @deprecated Float based, amounts may lose precision or be formatted in exponential notation. Use parseAmount or BigDecimal.stripTrailingZeros instead.
+ */
 export function removeZerosFromEndOfNumber(num: number) {
   return removeZerosFromEndOfStringOfNumber(num.toString());
 }
@@ -2,7 +2,30 @@ import { FullNodeFeeSignature, TransactionTrustScoreSignature } from '../signatu
 import { BaseAddress, IndexedAddress } from '../address';
 import { Transaction } from '../transaction';
 import { IndexedWallet, BaseWallet } from '../wallet';
-import { nodeUtils } from './nodeUtils';
+import { nodeUtils, TransactionsHistoryOptions } from './nodeUtils';
+import { BigDecimalValue } from './utils';
+
+export interface AddressDiscoveryCursor {
+  nextIndex: number;
+  gap: number;
+}
+
+export interface AddressDiscoveryOptions {
+  startIndex?: number;
+  gapLimit?: number;
+  chunkSize?: number;
+  cursor?: AddressDiscoveryCursor;
+}
+
+export interface AddressDiscoveryProgress<T extends IndexedAddress = IndexedAddress> {
+  addresses: T[];
+  discoveredCount: number;
+  checkedCount: number;
+  cursor: AddressDiscoveryCursor;
+  done: boolean;
+}
+
+const defaultGapLimit = 20;
 
 export namespace walletUtils {
   export async function getUserTrustScore<T extends IndexedAddress>(wallet: IndexedWallet<T>) {
@@ -13,37 +36,57 @@ export namespace walletUtils {
     return await nodeUtils.sendAddressToNode(address, wallet.getNetwork());
   }
 
-  export async function getAddressesOfWallet<T extends IndexedAddress>(wallet: IndexedWallet<T>) {
-    let addressesToCheck: string[] = [];
-    let addressesThatExists: T[] = [];
-    let nextChunk = 0;
-    let notExistsAddressFound = false;
-    let maxAddressReached = false;
-    const generatedAddressMap = new Map<string, T>();
+  // Addresses are checked in chunks until gapLimit consecutive addresses do not exist, existing addresses after a gap in the same chunk are kept.
+  // When the wallet allows it, the next chunk is derived between the yields of its key derivations while the node checks the current one.
+  // Progress is emitted on the wallet after each chunk with the cursor to resume the discovery from, a given cursor takes precedence over startIndex.
+  export async function discoverAddresses<T extends IndexedAddress>(wallet: IndexedWallet<T>, options: AddressDiscoveryOptions = {}) {
+    const { startIndex = 0, gapLimit = defaultGapLimit, chunkSize = gapLimit, cursor } = options;
+    if (!Number.isInteger(startIndex) || startIndex < 0) throw new Error(`Invalid start index ${startIndex}`);
+    if (!Number.isInteger(gapLimit) || gapLimit <= 0) throw new Error(`Invalid gap limit ${gapLimit}`);
+    if (!Number.isInteger(chunkSize) || chunkSize <= 0) throw new Error(`Invalid chunk size ${chunkSize}`);
+    let { nextIndex, gap } = cursor || { nextIndex: startIndex, gap: 0 };
+    const addresses: T[] = [];
+    let checkedCount = 0;
+    const getChunkIndexes = (fromIndex: number) => {
+      const indexes: number[] = [];
+      for (let i = fromIndex; indexes.length < chunkSize && wallet.canGenerateAddressByIndex(i); i++) indexes.push(i);
+      return indexes;
+    };
+    let prefetchedAddresses: Promise<T[]> | undefined;
 
-    while (!notExistsAddressFound && !maxAddressReached) {
-      const maxAddress = wallet.getMaxAddress();
-      for (let i = nextChunk; i < nextChunk + 20; i++) {
-        const address = await wallet.generateAddressByIndex(i);
-        generatedAddressMap.set(address.getAddressHex(), address);
-        addressesToCheck.push(address.getAddressHex());
-        if (maxAddress && i === maxAddress) {
-          maxAddressReached = true;
-          break;
-        }
-      }
-      let addressesResult = await nodeUtils.checkAddressesExist(addressesToCheck, wallet.getNetwork());
-      Object.keys(addressesResult)
-        .filter(addressHex => addressesResult[addressHex] === true)
-        .forEach(addressHex => {
-          const generatedAddress = generatedAddressMap.get(addressHex);
-          if (generatedAddress) addressesThatExists.push(generatedAddress);
-        });
-      notExistsAddressFound = Object.values(addressesResult).filter(val => val === false).length ? true : false;
-      addressesToCheck = [];
-      nextChunk = nextChunk + 20;
+    while (gap < gapLimit && wallet.canGenerateAddressByIndex(nextIndex)) {
+      const indexes = getChunkIndexes(nextIndex);
+      const generatedAddresses = await (prefetchedAddresses || wallet.generateAddressesByIndexes(indexes));
+      const addressesCheck = nodeUtils.checkAddressesExist(
+        generatedAddresses.map(address => address.getAddressHex()),
+        wallet.getNetwork()
+      );
+      const nextIndexes = getChunkIndexes(indexes[indexes.length - 1] + 1);
+      prefetchedAddresses = wallet.canPrefetchAddresses() && nextIndexes.length ? wallet.generateAddressesByIndexes(nextIndexes) : undefined;
+      if (prefetchedAddresses) prefetchedAddresses.catch(() => undefined);
+      const addressesResult = await addressesCheck;
+      const existingAddresses = generatedAddresses.filter(address => {
+        const exists = addressesResult[address.getAddressHex()] === true;
+        gap = exists ? 0 : gap + 1;
+        return exists;
+      });
+      addresses.push(...existingAddresses);
+      checkedCount += indexes.length;
+      nextIndex = indexes[indexes.length - 1] + 1;
+      wallet.emit('discoveryProgress', {
+        addresses: existingAddresses,
+        discoveredCount: addresses.length,
+        checkedCount,
+        cursor: { nextIndex, gap },
+        done: gap >= gapLimit || !wallet.canGenerateAddressByIndex(nextIndex),
+      });
     }
-    return addressesThatExists;
+    return { addresses, cursor: { nextIndex, gap } };
+  }
+
+  export async function getAddressesOfWallet<T extends IndexedAddress>(wallet: IndexedWallet<T>, options?: AddressDiscoveryOptions) {
+    const { addresses } = await discoverAddresses(wallet, options);
+    return addresses;
   }
 
   export async function checkBalances(addresses: string[], wallet: BaseWallet) {
@@ -54,7 +97,15 @@ export namespace walletUtils {
     return await nodeUtils.getTransactionsHistory(addresses, wallet.getNetwork());
   }
 
-  export async function getFullNodeFees<T extends IndexedAddress>(wallet: IndexedWallet<T>, amountToTransfer: number, feeIncluded?: boolean) {
+  export function streamTransactionsHistory(addresses: string[], wallet: BaseWallet, options?: TransactionsHistoryOptions) {
+    return nodeUtils.streamTransactionsHistory(addresses, wallet.getNetwork(), options);
+  }
+
+  export async function getFullNodeFees<T extends IndexedAddress>(
+    wallet: IndexedWallet<T>,
+    amountToTransfer: BigDecimalValue,
+    feeIncluded?: boolean
+  ) {
     const userHash = wallet.getPublicHash();
     const userSignature = await new FullNodeFeeSignature(amountToTransfer).sign(wallet);
     const network = wallet.getNetwork();
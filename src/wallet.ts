@@ -1,26 +1,43 @@
 import { EventEmitter } from 'events';
 import { BaseAddress, IndexedAddress, Address, LedgerAddress } from './address';
 import { ReducedTransaction, TransactionData } from './transaction';
-import { walletUtils } from './utils/walletUtils';
+import { walletUtils, AddressDiscoveryOptions, AddressDiscoveryProgress } from './utils/walletUtils';
+import * as transactionUtils from './utils/transactionUtils';
+import * as coinSelectionUtils from './utils/coinSelectionUtils';
+import * as transactionAnalysisUtils from './utils/transactionAnalysisUtils';
+import * as balanceHistoryUtils from './utils/balanceHistoryUtils';
 import { SignatureData, SigningType } from './signature';
 import * as cryptoUtils from './utils/cryptoUtils';
-import { BigDecimal, Network } from './utils/utils';
+import { BigDecimal, BigDecimalValue, Network } from './utils/utils';
 import * as utils from './utils/utils';
 import * as ledgerUtils from './utils/ledgerUtils';
+import { networkUtils } from './utils/networkUtils';
+import { NodeTransport } from './nodeTransport';
+import { WalletState, WalletStorage, walletStateVersion } from './walletStorage';
+import * as keystoreUtils from './utils/keystoreUtils';
+import { KeystoreError, WatchOnlyWalletError } from './cotiError';
 import BN from 'bn.js';
 import moment from 'moment';
 
 type KeyPair = cryptoUtils.KeyPair;
 type LedgerTransportType = ledgerUtils.LedgerTransportType;
+type CoinSelectionStrategy = coinSelectionUtils.CoinSelectionStrategy;
+type CoinSelector = coinSelectionUtils.CoinSelector;
+type CoinSelection = coinSelectionUtils.CoinSelection;
+type TransactionQuery = transactionAnalysisUtils.TransactionQuery;
+type AddressBalanceHistory = balanceHistoryUtils.AddressBalanceHistory;
+type WalletBalanceHistory = balanceHistoryUtils.WalletBalanceHistory;
 
 export interface WalletEvent {
   on(event: 'balanceChange', listener: (address: BaseAddress) => void): this;
   on(event: 'generateAddress', listener: (addressHex: string) => void): this;
   on(event: 'receivedTransaction', listener: (transaction: TransactionData) => void): this;
+  on(event: 'discoveryProgress', listener: (progress: AddressDiscoveryProgress) => void): this;
 
   emit(event: 'balanceChange', address: BaseAddress): boolean;
   emit(event: 'generateAddress', addressHex: string): boolean;
   emit(event: 'receivedTransaction', transaction: TransactionData): boolean;
+  emit(event: 'discoveryProgress', progress: AddressDiscoveryProgress): boolean;
 }
 
 export abstract class WalletEvent extends EventEmitter {
@@ -35,18 +52,95 @@ export abstract class WalletEvent extends EventEmitter {
   public onReceivedTransaction(listener: (transaction: TransactionData) => void): this {
     return this.on('receivedTransaction', listener);
   }
+
+  public onDiscoveryProgress(listener: (progress: AddressDiscoveryProgress) => void): this {
+    return this.on('discoveryProgress', listener);
+  }
 }
 
+// Transactions the node timestamped shortly before the last one seen can still be missing from the previous history check
+const historyCheckOverlapInSeconds = 600;
+
 export class BaseWallet extends WalletEvent {
   protected readonly network: Network;
   protected readonly addressMap: Map<string, BaseAddress>;
   protected readonly transactionMap: Map<string, ReducedTransaction>;
-
-  constructor(network?: Network) {
+  protected readonly transactionDataMap: Map<string, TransactionData>;
+  protected historyCheckTime?: number;
+  protected historyCheckedAddresses = new Set<string>();
+  private keepTransactionData = false;
+  private storage?: WalletStorage;
+  private pendingSave?: Promise<void>;
+  private lastSave: Promise<void> = Promise.resolve();
+
+  constructor(network?: Network, transport?: NodeTransport) {
     super();
-    this.network = network || 'mainnet';
+    this.network = networkUtils.withTransport(network || 'mainnet', transport);
     this.addressMap = new Map();
     this.transactionMap = new Map();
+    this.transactionDataMap = new Map();
+  }
+
+  public async setStorage(storage: WalletStorage) {
+    const state = await storage.load();
+    if (state) this.restoreState(state);
+    this.storage = storage;
+  }
+
+  public getState(): WalletState {
+    return {
+      version: walletStateVersion,
+      addresses: this.getAddresses().map(address => ({
+        addressHex: address.getAddressHex(),
+        index: address instanceof IndexedAddress ? address.getIndex() : undefined,
+        balance: address.getBalance().toString(),
+        preBalance: address.getPreBalance().toString(),
+      })),
+      transactions: [...this.transactionMap.values()].map(({ hash, createTime, transactionConsensusUpdateTime }) => ({
+        hash,
+        createTime,
+        transactionConsensusUpdateTime,
+        transactionData: this.transactionDataMap.get(hash),
+      })),
+      historyCheckTime: this.historyCheckTime,
+      historyCheckedAddresses: [...this.historyCheckedAddresses],
+    };
+  }
+
+  protected restoreState(state: WalletState) {
+    state.addresses.forEach(({ addressHex, index, balance, preBalance }) => {
+      const address = index !== undefined ? new IndexedAddress(index, addressHex) : new BaseAddress(addressHex);
+      address.setBalance(new BigDecimal(balance));
+      address.setPreBalance(new BigDecimal(preBalance));
+      this.setInitialAddressToMap(address);
+    });
+    state.transactions.forEach(({ hash, createTime, transactionConsensusUpdateTime, transactionData }) => {
+      this.transactionMap.set(hash, new ReducedTransaction(hash, createTime, transactionConsensusUpdateTime));
+      if (transactionData) {
+        this.transactionDataMap.set(hash, new TransactionData(transactionData));
+        this.keepTransactionData = true;
+      }
+    });
+    this.historyCheckTime = state.historyCheckTime;
+    this.historyCheckedAddresses = new Set(state.historyCheckedAddresses);
+  }
+
+  // Changes arriving while a save is waiting to start are written by that same save
+  public saveState() {
+    const storage = this.storage;
+    if (!storage) return Promise.resolve();
+    if (!this.pendingSave) {
+      this.pendingSave = this.lastSave.then(() => {
+        this.pendingSave = undefined;
+        return storage.save(this.getState());
+      });
+      this.lastSave = this.pendingSave.catch(() => undefined);
+    }
+    return this.pendingSave;
+  }
+
+  protected onStateChange() {
+    this.saveState().catch(error => console.error(`Error saving wallet state: ${error.message}`));
   }
 
   public async loadAddresses(addresses: BaseAddress[]) {
@@ -83,6 +177,7 @@ export class BaseWallet extends WalletEvent {
   protected setAddressToMap(address: BaseAddress) {
     if (!(address instanceof BaseAddress)) throw new Error('BaseAddress required');
     this.addressMap.set(address.getAddressHex(), address);
+    this.onStateChange();
   }
 
   public async setAddress(address: BaseAddress, checkNetwork = true) {
@@ -144,20 +239,88 @@ export class BaseWallet extends WalletEvent {
       if (!(reducedTransaction instanceof ReducedTransaction)) throw new Error('ReducedTransaction instance required');
       this.transactionMap.set(reducedTransaction.hash, reducedTransaction);
     });
+    this.onStateChange();
+  }
+
+  // Enabling it makes the next full history check fetch the whole history again to get the data of the known transactions,
+  // a state saved with transaction data enables it when restored
+  public setKeepTransactionData(keepTransactionData: boolean) {
+    if (keepTransactionData && !this.keepTransactionData && this.historyCheckTime !== undefined) {
+      this.historyCheckTime = undefined;
+      this.onStateChange();
+    }
+    this.keepTransactionData = keepTransactionData;
+    if (!keepTransactionData && this.transactionDataMap.size) {
+      this.transactionDataMap.clear();
+      this.onStateChange();
+    }
+  }
+
+  public isKeepingTransactionData() {
+    return this.keepTransactionData;
+  }
+
+  public getTransactionByHash(hash: string): TransactionData | ReducedTransaction | undefined {
+    return this.transactionDataMap.get(hash) || this.transactionMap.get(hash);
+  }
+
+  private getKeptTransactionData() {
+    if (!this.keepTransactionData) throw new Error('Wallet does not keep transaction data, enable it with setKeepTransactionData');
+    return [...this.transactionDataMap.values()];
+  }
+
+  public queryTransactions(query?: TransactionQuery) {
+    return transactionAnalysisUtils.queryTransactions(this.getKeptTransactionData(), this, query);
+  }
+
+  // The history is computed from the kept transaction data and reconciled with the last balance received from the node
+  public getAddressBalanceHistory(addressHex: string): AddressBalanceHistory {
+    const address = this.addressMap.get(addressHex);
+    if (!address) throw new Error(`Wallet doesn't contain the address ${addressHex}`);
+    const entries = balanceHistoryUtils.getBalanceHistory(this.getKeptTransactionData(), [addressHex]);
+    const reconciliation = balanceHistoryUtils.reconcileBalance(entries, { balance: address.getBalance(), preBalance: address.getPreBalance() });
+    return { addressHex, entries, reconciliation };
   }
 
-  public getTransactionByHash(hash: string) {
-    return this.transactionMap.get(hash);
+  public getBalanceHistory(): WalletBalanceHistory {
+    const transactions = this.getKeptTransactionData();
+    const addresses = this.getAddressHexes().map(addressHex => this.getAddressBalanceHistory(addressHex));
+    const entries = balanceHistoryUtils.getBalanceHistory(transactions, this.getAddressHexes());
+    const { balance, prebalance } = this.getTotalBalance();
+    const reconciliation = balanceHistoryUtils.reconcileBalance(entries, { balance, preBalance: prebalance });
+    return { entries, reconciliation, addresses };
   }
 
-  public async checkTransactionHistory(addresses?: BaseAddress[]) {
+  // Checking all the addresses without since only processes what changed from the latest node time seen by the last full check
+  // for the addresses it covered, addresses added to the wallet after it get their whole history
+  public async checkTransactionHistory(addresses?: BaseAddress[], since?: number) {
     console.log('Starting to get transaction history');
+    const checkAllAddresses = addresses === undefined;
+    let historyCheckTime = this.historyCheckTime;
     const addressHexes = addresses === undefined ? this.getAddressHexes() : addresses.map(address => address.getAddressHex());
-    const transactionHistoryMap = await walletUtils.getTransactionsHistory(addressHexes, this);
-    transactionHistoryMap.forEach(t => {
-      this.setTransaction(t);
-    });
-    console.log(`Finished to get transaction history. Total transactions: ${transactionHistoryMap.size}`);
+    const historyChecks: { addressHexes: string[]; since?: number }[] = [];
+    if (checkAllAddresses && since === undefined && this.historyCheckTime !== undefined) {
+      historyChecks.push({
+        addressHexes: addressHexes.filter(addressHex => this.historyCheckedAddresses.has(addressHex)),
+        since: this.historyCheckTime - historyCheckOverlapInSeconds,
+      });
+      historyChecks.push({ addressHexes: addressHexes.filter(addressHex => !this.historyCheckedAddresses.has(addressHex)) });
+    } else historyChecks.push({ addressHexes, since });
+
+    let transactionCount = 0;
+    for (const historyCheck of historyChecks.filter(historyCheck => historyCheck.addressHexes.length)) {
+      for await (const transaction of walletUtils.streamTransactionsHistory(historyCheck.addressHexes, this, { since: historyCheck.since })) {
+        this.setTransaction(transaction);
+        historyCheckTime = Math.max(historyCheckTime || 0, transaction.attachmentTime || 0, transaction.transactionConsensusUpdateTime || 0);
+        transactionCount++;
+      }
+    }
+    if (checkAllAddresses) {
+      this.historyCheckTime = historyCheckTime;
+      this.historyCheckedAddresses = new Set(addressHexes);
+      this.onStateChange();
+    }
+    console.log(`Finished to get transaction history. Total transactions: ${transactionCount}`);
   }
 
   public setTransaction(transaction: TransactionData) {
@@ -171,13 +334,21 @@ export class BaseWallet extends WalletEvent {
           .duration(moment.unix(existingTransaction.transactionConsensusUpdateTime).diff(moment.unix(transaction.transactionConsensusUpdateTime)))
           .asSeconds()
       );
-      if (consensusDiffInSeconds <= 600) return;
+      if (consensusDiffInSeconds <= 600) {
+        if (this.keepTransactionData && !this.transactionDataMap.has(transaction.hash)) {
+          this.transactionDataMap.set(transaction.hash, transaction);
+          this.onStateChange();
+        }
+        return;
+      }
     }
 
     this.transactionMap.set(
       transaction.hash,
       new ReducedTransaction(transaction.hash, transaction.createTime, transaction.transactionConsensusUpdateTime)
     );
+    if (this.keepTransactionData) this.transactionDataMap.set(transaction.hash, transaction);
+    this.onStateChange();
 
     this.emit('receivedTransaction', transaction);
   }
@@ -187,12 +358,13 @@ type Constructor<T> = { new (...args: any[]): T };
 
 export abstract class IndexedWallet<T extends IndexedAddress> extends BaseWallet {
   protected maxAddress?: number;
+  protected discoveredIndex = 0;
   protected readonly indexToAddressHexMap: Map<number, string>;
   protected publicHash!: string;
   protected trustScore!: number;
 
-  constructor(network?: Network) {
-    super(network);
+  constructor(network?: Network, transport?: NodeTransport) {
+    super(network, transport);
     this.indexToAddressHexMap = new Map();
   }
 
@@ -206,6 +378,19 @@ export abstract class IndexedWallet<T extends IndexedAddress> extends BaseWallet
     return this.maxAddress;
   }
 
+  public canGenerateAddressByIndex(index: number) {
+    return !this.maxAddress || index < this.maxAddress;
+  }
+
+  public getState(): WalletState {
+    return { ...super.getState(), discoveredIndex: this.discoveredIndex };
+  }
+
+  protected restoreState(state: WalletState) {
+    super.restoreState(state);
+    this.discoveredIndex = state.discoveredIndex || 0;
+  }
+
   private checkAddressIndexed(address: BaseAddress) {
     if (!(address instanceof IndexedAddress)) throw new Error('Address should be indexed');
   }
@@ -257,16 +442,83 @@ export abstract class IndexedWallet<T extends IndexedAddress> extends BaseWallet
 
   public abstract async signMessage(messageInBytes: Uint8Array, signingType?: SigningType, addressHex?: string): Promise<SignatureData>;
 
-  public async autoDiscoverAddresses() {
+  // Discovery continues from the index reached by the previous discovery, the balances of all the addresses are refreshed
+  public async autoDiscoverAddresses(options: Pick<AddressDiscoveryOptions, 'gapLimit' | 'chunkSize'> = {}) {
     console.log(`Starting to discover addresses`);
-    const addresses = await walletUtils.getAddressesOfWallet(this);
-    addresses.length > 0 ? await this.checkBalancesOfAddresses(addresses) : console.log('No addresses');
-    console.log(`Finished to discover addresses. Total addresses: ${addresses.length}`);
+    const addresses = await walletUtils.getAddressesOfWallet(this, { ...options, startIndex: this.discoveredIndex });
+    const knownAddresses = this.getAddresses().filter(
+      knownAddress => !addresses.some(address => address.getAddressHex() === knownAddress.getAddressHex())
+    );
+    const addressesToCheck = [...knownAddresses, ...addresses];
+    addressesToCheck.length > 0 ? await this.checkBalancesOfAddresses(addressesToCheck) : console.log('No addresses');
+    this.discoveredIndex = addresses.reduce((discoveredIndex, address) => Math.max(discoveredIndex, address.getIndex() + 1), this.discoveredIndex);
+    this.onStateChange();
+    console.log(`Finished to discover addresses. Total addresses: ${addressesToCheck.length}`);
     return this.getAddressMap();
   }
 
   public abstract async generateAddressByIndex(index: number): Promise<T>;
 
+  // Key derivation of a seed wallet is synchronous, the event loop is yielded before each key so a chunk doesn't hold it for all its keys
+  public async generateAddressesByIndexes(indexes: number[]) {
+    const addresses: T[] = [];
+    for (const index of indexes) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      addresses.push(await this.generateAddressByIndex(index));
+    }
+    return addresses;
+  }
+
+  // Whether discovery may derive the next chunk of addresses before knowing it is needed
+  public canPrefetchAddresses() {
+    return true;
+  }
+
+  public async createTransaction(params: {
+    to: string;
+    amount: BigDecimalValue;
+    feeIncluded?: boolean;
+    strategy?: CoinSelectionStrategy | CoinSelector;
+    description?: string;
+  }) {
+    const { to, amount, feeIncluded = false, strategy = 'fewestInputs', description } = params;
+    const decimalAmount = utils.parseAmount(amount);
+    if (decimalAmount.compareTo(new BigDecimal('0')) <= 0) throw new Error(`Error creating transaction - amount should be positive`);
+    const selector = typeof strategy === 'function' ? strategy : coinSelectionUtils.coinSelectors[strategy];
+    if (!selector) throw new Error(`Unknown coin selection strategy ${strategy}`);
+
+    const candidates = coinSelectionUtils.getSpendableAddresses(this.getAddresses());
+    const fee = feeIncluded ? undefined : await this.estimateTotalFee(decimalAmount);
+    const inputs = coinSelectionUtils.selectCoins(candidates, decimalAmount, selector, fee);
+    const feeAddress = coinSelectionUtils.selectFeeAddress(candidates, inputs, feeIncluded, fee);
+
+    const inputMap = new Map(inputs.map(({ addressHex, amount }) => [addressHex, amount]));
+    const transaction = await transactionUtils.createTransaction({
+      wallet: this,
+      inputMap,
+      feeAddress,
+      destinationAddress: to,
+      description,
+      feeIncluded,
+      network: this.network,
+    });
+    const selection: CoinSelection = {
+      strategy: typeof strategy === 'function' ? strategy.name || 'custom' : strategy,
+      inputs,
+      feeAddress,
+      debits: coinSelectionUtils.getTransactionDebits(transaction),
+      fees: coinSelectionUtils.getTransactionFees(transaction),
+    };
+
+    return { transaction, selection };
+  }
+
+  // The fees of a transaction are known only once the node is asked for them, so they are estimated before selecting the addresses to pay them
+  private async estimateTotalFee(amount: BigDecimal) {
+    const { fullNodeFee, networkFee } = await transactionUtils.estimateFees({ amount, wallet: this, network: this.network });
+    return fullNodeFee.add(networkFee);
+  }
+
   public async getUserTrustScore() {
     let data = await walletUtils.getUserTrustScore(this);
     if (!data) throw new Error(`Error getting user trust score, received no data`);
@@ -280,9 +532,9 @@ export class Wallet extends IndexedWallet<Address> {
   private seed!: string;
   private keyPair!: KeyPair;
 
-  constructor(params: { seed?: string; userSecret?: string; serverKey?: BN; network?: Network }) {
-    const { seed, userSecret, serverKey, network } = params;
-    super(network);
+  constructor(params: { seed?: string; userSecret?: string; serverKey?: BN; network?: Network; transport?: NodeTransport }) {
+    const { seed, userSecret, serverKey, network, transport } = params;
+    super(network, transport);
     if (seed) {
       if (!this.checkSeedFormat(seed)) throw new Error('Seed is not in correct format');
       this.seed = seed;
@@ -293,6 +545,32 @@ export class Wallet extends IndexedWallet<Address> {
     this.setPublicHash();
   }
 
+  public static async fromKeystore(
+    keystore: keystoreUtils.Keystore | string,
+    password: string,
+    params: { network?: Network; transport?: NodeTransport } = {}
+  ) {
+    const parsedKeystore = keystoreUtils.parseKeystore(keystore);
+    const seed = await keystoreUtils.decryptKeystore(parsedKeystore, password);
+    const wallet = new Wallet({ ...params, seed });
+    if (wallet.getPublicHash() !== parsedKeystore.publicHash) throw new KeystoreError('Keystore public hash does not match its seed');
+    return wallet;
+  }
+
+  // The wallet seed is derived from the BIP39 seed of the mnemonic and passphrase as documented in cryptoUtils.generateSeedFromBip39Seed
+  public static async fromMnemonic(
+    mnemonic: string,
+    params: { passphrase?: string; language?: cryptoUtils.MnemonicLanguage; network?: Network; transport?: NodeTransport } = {}
+  ) {
+    const { passphrase, language, network, transport } = params;
+    const seed = await cryptoUtils.generateWalletSeedFromMnemonic(mnemonic, { passphrase, language });
+    return new Wallet({ seed, network, transport });
+  }
+
+  public async toKeystore(password: string, options?: keystoreUtils.KeystoreOptions) {
+    return await keystoreUtils.encryptKeystore(this.seed, this.publicHash, password, options);
+  }
+
   private checkSeedFormat(seed: string) {
     return seed.length === 64;
   }
@@ -353,9 +631,9 @@ export class LedgerWallet extends IndexedWallet<LedgerAddress> {
   private transportType?: LedgerTransportType;
   private interactive?: boolean;
 
-  constructor(params: { network?: Network; interactive?: boolean; transportType?: LedgerTransportType }) {
-    const { network, interactive, transportType } = params;
-    super(network);
+  constructor(params: { network?: Network; interactive?: boolean; transportType?: LedgerTransportType; transport?: NodeTransport }) {
+    const { network, interactive, transportType, transport } = params;
+    super(network, transport);
     this.transportType = transportType;
     this.interactive = interactive;
     this.maxAddress = 20;
@@ -381,6 +659,18 @@ export class LedgerWallet extends IndexedWallet<LedgerAddress> {
     return new LedgerAddress(index, ledgerPublicKey);
   }
 
+  // The device handles one request at a time
+  public async generateAddressesByIndexes(indexes: number[]) {
+    const addresses: LedgerAddress[] = [];
+    for (const index of indexes) addresses.push(await this.generateAddressByIndex(index));
+    return addresses;
+  }
+
+  // Deriving addresses which may not be needed would keep the device busy, and prompt for them in interactive mode
+  public canPrefetchAddresses() {
+    return false;
+  }
+
   public getAddressFromIndexedAddress(indexedAddress: IndexedAddress) {
     const address = new LedgerAddress(indexedAddress.getIndex(), undefined, indexedAddress.getAddressHex());
     address.setBalance(indexedAddress.getBalance());
@@ -402,3 +692,88 @@ export class LedgerWallet extends IndexedWallet<LedgerAddress> {
     }
   }
 }
+
+export interface WatchOnlyAddress {
+  index: number;
+  addressHex: string;
+}
+
+export type WatchOnlyRequestSigner = (messageInBytes: Uint8Array, signingType: SigningType) => Promise<SignatureData>;
+
+const watchOnlyRequestSigningTypes = [SigningType.FULL_NODE_FEE, SigningType.TX_TRUST_SCORE];
+
+export class WatchOnlyWallet extends IndexedWallet<IndexedAddress> {
+  private readonly requestSigner?: WatchOnlyRequestSigner;
+
+  // The optional request signer signs only the user requests to the nodes (fees and trust score) which are needed to build unsigned transactions
+  constructor(params: {
+    publicHash: string;
+    addresses: (WatchOnlyAddress | IndexedAddress)[];
+    requestSigner?: WatchOnlyRequestSigner;
+    network?: Network;
+    transport?: NodeTransport;
+  }) {
+    const { publicHash, addresses, requestSigner, network, transport } = params;
+    super(network, transport);
+    if (!this.checkPublicHashFormat(publicHash)) throw new Error('Public hash is not in correct format');
+    this.publicHash = publicHash;
+    this.requestSigner = requestSigner;
+    addresses.forEach(address => this.importAddress(address));
+  }
+
+  public static fromWallet<T extends IndexedAddress>(wallet: IndexedWallet<T>, params: { requestSigner?: WatchOnlyRequestSigner } = {}) {
+    const { requestSigner } = params;
+    const addresses = <T[]>wallet.getAddresses();
+    return new WatchOnlyWallet({ publicHash: wallet.getPublicHash(), addresses, requestSigner, network: wallet.getNetwork() });
+  }
+
+  private checkPublicHashFormat(publicHash: string) {
+    return /^[0-9a-fA-F]{128}$/.test(publicHash);
+  }
+
+  private importAddress(address: WatchOnlyAddress | IndexedAddress) {
+    const { index, addressHex } = address instanceof IndexedAddress ? { index: address.getIndex(), addressHex: address.getAddressHex() } : address;
+    if (!Number.isInteger(index) || index < 0) throw new Error(`Invalid index ${index} of address ${addressHex}`);
+    if (!cryptoUtils.verifyAddressStructure(addressHex)) throw new Error(`Invalid address: ${addressHex}`);
+    const importedAddressHex = this.indexToAddressHexMap.get(index);
+    if (importedAddressHex && importedAddressHex !== addressHex) throw new Error(`Address of index ${index} is already imported`);
+    this.setInitialAddressToMap(address instanceof IndexedAddress ? address : new IndexedAddress(index, addressHex));
+  }
+
+  public async setPublicHash() {}
+
+  public checkAddressType(address: BaseAddress) {
+    this.addressTypeGuard(address, IndexedAddress);
+  }
+
+  public canGenerateAddressByIndex(index: number) {
+    return this.indexToAddressHexMap.has(index);
+  }
+
+  public async generateAddressByIndex(index: number) {
+    const addressHex = this.indexToAddressHexMap.get(index);
+    if (!addressHex) throw new WatchOnlyWalletError(`Address of index ${index} is not imported to the watch-only wallet`);
+    return new IndexedAddress(index, addressHex);
+  }
+
+  public getAddressFromIndexedAddress(indexedAddress: IndexedAddress) {
+    const address = new IndexedAddress(indexedAddress.getIndex(), indexedAddress.getAddressHex());
+    address.setBalance(indexedAddress.getBalance());
+    address.setPreBalance(indexedAddress.getPreBalance());
+    return address;
+  }
+
+  // Addresses of a watch-only wallet can not be derived, so the discovery only refreshes the balances of the imported addresses
+  public async autoDiscoverAddresses() {
+    const addresses = this.getAddresses();
+    addresses.length > 0 ? await this.checkBalancesOfAddresses(addresses) : console.log('No addresses');
+    return this.getAddressMap();
+  }
+
+  public async signMessage(messageInBytes: Uint8Array, signingType?: SigningType, addressHex?: string) {
+    if (this.requestSigner && !addressHex && signingType && watchOnlyRequestSigningTypes.includes(signingType)) {
+      return await this.requestSigner(messageInBytes, signingType);
+    }
+    throw new WatchOnlyWalletError(`Watch-only wallet can not sign message of type ${signingType}`);
+  }
+}
@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import { TransactionData } from './transaction';
+
+export interface StoredAddress {
+  addressHex: string;
+  index?: number;
+  balance: string;
+  preBalance: string;
+}
+
+export interface StoredTransaction {
+  hash: string;
+  createTime: number;
+  transactionConsensusUpdateTime?: number;
+  transactionData?: TransactionData;
+}
+
+export interface WalletState {
+  version: number;
+  addresses: StoredAddress[];
+  transactions: StoredTransaction[];
+  discoveredIndex?: number;
+  historyCheckTime?: number;
+  historyCheckedAddresses?: string[];
+}
+
+export interface WalletStorage {
+  load(): Promise<WalletState | undefined>;
+  save(state: WalletState): Promise<void>;
+}
+
+export const walletStateVersion = 1;
+
+function checkWalletState(state: WalletState) {
+  if (!state || state.version !== walletStateVersion) throw new Error(`Unsupported wallet state version ${state && state.version}`);
+  return state;
+}
+
+export class InMemoryWalletStorage implements WalletStorage {
+  private state?: string;
+
+  public async load() {
+    return this.state ? checkWalletState(JSON.parse(this.state)) : undefined;
+  }
+
+  public async save(state: WalletState) {
+    this.state = JSON.stringify(state);
+  }
+}
+
+export class JsonFileWalletStorage implements WalletStorage {
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  public async load() {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+    return checkWalletState(JSON.parse(content));
+  }
+
+  // The state is written to a temporary file first, so a failed write never leaves a truncated state file
+  public async save(state: WalletState) {
+    const temporaryFilePath = `${this.filePath}.tmp`;
+    await fs.writeFile(temporaryFilePath, JSON.stringify(state), 'utf8');
+    await fs.rename(temporaryFilePath, this.filePath);
+  }
+}
@@ -2,6 +2,7 @@ import * as stomp from 'webstomp-client';
 import SockJS from 'sockjs-client';
 import { walletUtils } from './utils/walletUtils';
 import { nodeUtils } from './utils/nodeUtils';
+import { networkUtils } from './utils/networkUtils';
 import { BigDecimal } from './utils/utils';
 import { BaseWallet, IndexedWallet } from './wallet';
 import { BaseAddress, IndexedAddress } from './address';
@@ -9,10 +10,28 @@ import { TransactionData } from './transaction';
 
 export type StompClient = stomp.Client;
 
+export interface SocketMessage {
+  body: string;
+}
+
+export interface SocketSubscription {
+  unsubscribe(): void;
+}
+
+export interface SocketClient {
+  connect(headers: any, connectCallback: () => void, errorCallback?: (error: any) => void): void;
+  subscribe(destination: string, callback: (message: SocketMessage) => void): SocketSubscription;
+  disconnect(): void;
+}
+
+export type SocketClientFactory = (socketUrl: string) => SocketClient;
+
 export class WebSocket {
   private readonly wallet: BaseWallet;
   private readonly socketUrl: string;
-  private client!: StompClient;
+  private readonly connectTimeout: number;
+  private readonly socketClientFactory: SocketClientFactory;
+  private client!: SocketClient;
   private reconnectCounter = 0;
   private initialConnection = false;
   private connected?: boolean;
@@ -25,6 +44,16 @@ export class WebSocket {
   constructor(wallet: BaseWallet) {
     this.wallet = wallet;
     this.socketUrl = nodeUtils.getSocketUrl(wallet.getNetwork());
+    this.connectTimeout = networkUtils.getWebsocketConnectTimeout(wallet.getNetwork());
+    this.socketClientFactory = networkUtils.getNetworkConfig(wallet.getNetwork()).socketClientFactory || createStompClient;
+  }
+
+  public isConnected() {
+    return !!this.connected;
+  }
+
+  public getWallet() {
+    return this.wallet;
   }
 
   public connect(successCallback?: () => Promise<void>, reconnectFailedCallback?: () => Promise<void>) {
@@ -38,7 +67,7 @@ export class WebSocket {
       let timeout = setTimeout(() => {
         clearTimeout(timeout);
         reject(`Web socket connection timeout`);
-      }, 10000);
+      }, this.connectTimeout);
       this.client.connect(
         {},
         async () => {
@@ -85,8 +114,7 @@ export class WebSocket {
   }
 
   private setClient() {
-    const ws = new SockJS(this.socketUrl);
-    this.client = stomp.over(ws, { debug: false });
+    this.client = this.socketClientFactory(this.socketUrl);
   }
 
   private closeSocketConnection() {
@@ -109,8 +137,7 @@ export class WebSocket {
       this.connectToAddress(address);
     });
     if (this.wallet instanceof IndexedWallet) {
-      const maxAddress = this.wallet.getMaxAddress();
-      for (let i = addresses.length; i < addresses.length + 10 && (!maxAddress || i < maxAddress); i++) {
+      for (let i = addresses.length; i < addresses.length + 10 && this.wallet.canGenerateAddressByIndex(i); i++) {
         const address = await this.wallet.generateAddressByIndex(i);
         this.addressPropagationSubscriber(address);
       }
@@ -133,7 +160,7 @@ export class WebSocket {
               throw new Error(errorMsg);
             }
             const { balance, preBalance } = data;
-            this.setAddressWithBalance(address, balance === null ? 0 : balance, preBalance === null ? 0 : preBalance);
+            this.setAddressWithBalance(address, new BigDecimal(balance === null ? 0 : balance), new BigDecimal(preBalance === null ? 0 : preBalance));
           }
         } catch (e) {
           console.error(`Address balance subscription callback error for address ${addressHex}: `, e);
@@ -191,8 +218,7 @@ export class WebSocket {
   private async checkBalanceAndSubscribeNewAddress<T extends IndexedAddress>(address: IndexedAddress) {
     if (this.wallet instanceof IndexedWallet) {
       const nextPropagationAddressIndex = Array.from(this.propagationSubscriptions.keys()).pop().getIndex() + 1;
-      const maxAddress = this.wallet.getMaxAddress();
-      if (!maxAddress || nextPropagationAddressIndex < maxAddress) {
+      if (this.wallet.canGenerateAddressByIndex(nextPropagationAddressIndex)) {
         const nextAddress = <T>await this.wallet.generateAddressByIndex(nextPropagationAddressIndex);
         this.addressPropagationSubscriber(nextAddress);
       }
@@ -213,3 +239,8 @@ export class WebSocket {
     this.wallet.setAddressWithBalance(address, addressBalance, addressPreBalance);
   }
 }
+
+function createStompClient(socketUrl: string): StompClient {
+  const ws = new SockJS(socketUrl);
+  return stomp.over(ws, { debug: false });
+}
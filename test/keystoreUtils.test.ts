@@ -0,0 +1,54 @@
+import assert from 'assert';
+import { keystoreUtils, InvalidKeystorePasswordError, KeystoreError } from '../src';
+
+const secret = 'a'.repeat(64);
+const publicHash = 'b'.repeat(128);
+
+describe('keystoreUtils', () => {
+  it('decrypts a scrypt keystore with its password', async () => {
+    const keystore = await keystoreUtils.encryptKeystore(secret, publicHash, 'password', { scryptN: 1024 });
+
+    assert.strictEqual(keystore.crypto.kdf, 'scrypt');
+    assert.strictEqual(keystore.publicHash, publicHash);
+    assert.strictEqual(await keystoreUtils.decryptKeystore(JSON.stringify(keystore), 'password'), secret);
+  });
+
+  it('decrypts a pbkdf2 keystore with its password', async () => {
+    const keystore = await keystoreUtils.encryptKeystore(secret, publicHash, 'password', { kdf: 'pbkdf2', pbkdf2Iterations: 1000 });
+
+    assert.strictEqual(await keystoreUtils.decryptKeystore(keystore, 'password'), secret);
+  });
+
+  it('rejects a wrong password', async () => {
+    const keystore = await keystoreUtils.encryptKeystore(secret, publicHash, 'password', { scryptN: 1024 });
+
+    await assert.rejects(keystoreUtils.decryptKeystore(keystore, 'wrong'), InvalidKeystorePasswordError);
+  });
+
+  it('rejects unsupported or unbounded kdf params before deriving the key', async () => {
+    const keystore = await keystoreUtils.encryptKeystore(secret, publicHash, 'password', { scryptN: 1024 });
+    const withKdfParams = (kdfparams: object) => ({
+      ...keystore,
+      crypto: { ...keystore.crypto, kdfparams: { ...keystore.crypto.kdfparams, ...kdfparams } },
+    });
+
+    await assert.rejects(keystoreUtils.decryptKeystore(withKdfParams({ dklen: 16 }), 'password'), /key length 16/);
+    await assert.rejects(keystoreUtils.decryptKeystore(withKdfParams({ n: 1000 }), 'password'), /scrypt n 1000/);
+    await assert.rejects(keystoreUtils.decryptKeystore(withKdfParams({ n: 1 << 30 }), 'password'), /scrypt n/);
+    await assert.rejects(keystoreUtils.decryptKeystore(withKdfParams({ n: 1 << 20, r: 8 }), 'password'), /too much memory/);
+    await assert.rejects(keystoreUtils.decryptKeystore(withKdfParams({ p: 0 }), 'password'), /scrypt p 0/);
+  });
+
+  it('wraps cipher failures in a keystore error', async () => {
+    const keystore = await keystoreUtils.encryptKeystore(secret, publicHash, 'password', { scryptN: 1024 });
+    const invalidKeystore = { ...keystore, crypto: { ...keystore.crypto, cipherparams: { iv: '' } } };
+
+    await assert.rejects(keystoreUtils.decryptKeystore(invalidKeystore, 'password'), KeystoreError);
+  });
+
+  it('rejects an unsupported version', async () => {
+    const keystore = await keystoreUtils.encryptKeystore(secret, publicHash, 'password', { scryptN: 1024 });
+
+    assert.throws(() => keystoreUtils.parseKeystore({ ...keystore, version: 2 }), /Unsupported keystore version 2/);
+  });
+});
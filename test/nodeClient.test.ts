@@ -0,0 +1,63 @@
+import assert from 'assert';
+import { CotiError, NodeClient, NodeSimulator, TransactionConfirmationTimeoutError, Wallet, WebSocket } from '../src';
+import { createSignedTransaction } from './simulatorWallet';
+
+describe('NodeClient', () => {
+  describe('waitForConfirmation', () => {
+    const simulator = new NodeSimulator({ name: 'wait-for-confirmation', autoConfirm: false });
+    const network = simulator.getNetworkConfig();
+    const nodeClient = new NodeClient(network);
+    let wallet: Wallet;
+    let transactionHash: string;
+
+    beforeEach(async () => {
+      const { transaction, wallet: senderWallet } = await createSignedTransaction(simulator);
+      wallet = senderWallet;
+      await nodeClient.sendTransaction(transaction);
+      transactionHash = transaction.getHash();
+    });
+
+    it('resolves with the transaction once the node confirms it', async () => {
+      setTimeout(() => simulator.confirmTransaction(transactionHash), 50);
+
+      const transaction = await nodeClient.waitForConfirmation(transactionHash, { timeout: 2000, pollInterval: 10 });
+
+      assert.strictEqual(transaction.hash, transactionHash);
+      assert.strictEqual(transaction.status, 'confirmed');
+    });
+
+    it('resolves from the websocket of the wallet of the transaction', async () => {
+      const webSocket = new WebSocket(wallet);
+      await webSocket.connect();
+      setTimeout(() => simulator.confirmTransaction(transactionHash), 50);
+
+      const transaction = await nodeClient.waitForConfirmation(transactionHash, { timeout: 2000, connectedPollInterval: 60000, webSocket });
+
+      assert.strictEqual(transaction.status, 'confirmed');
+    });
+
+    it('keeps polling while a websocket not watching the transaction is connected', async () => {
+      const webSocket = new WebSocket(new Wallet({ seed: 'c'.repeat(64), network }));
+      await webSocket.connect();
+      setTimeout(() => simulator.confirmTransaction(transactionHash), 50);
+
+      const transaction = await nodeClient.waitForConfirmation(transactionHash, { timeout: 2000, connectedPollInterval: 20, webSocket });
+
+      assert.strictEqual(transaction.status, 'confirmed');
+    });
+
+    it('rejects when the transaction is not confirmed in time', async () => {
+      await assert.rejects(nodeClient.waitForConfirmation(transactionHash, { timeout: 100, pollInterval: 10 }), TransactionConfirmationTimeoutError);
+    });
+
+    it('rejects when aborted', async () => {
+      const abortController = new AbortController();
+      setTimeout(() => abortController.abort(), 20);
+
+      await assert.rejects(
+        nodeClient.waitForConfirmation(transactionHash, { timeout: 2000, pollInterval: 10, signal: abortController.signal }),
+        CotiError
+      );
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import assert from 'assert';
+import { nodeUtils, HandlerTransport, NetworkConfig, NodeSimulator, NodeTransportRequest, NodeTransportResponse } from '../src';
+import { createSignedTransaction } from './simulatorWallet';
+
+const balanceResponse = { status: 200, data: { status: 'Success', addressesBalance: { x: { addressBalance: 1, addressPreBalance: 1 } } } };
+
+// Node urls are unique per test, the health of a node is kept between calls
+function createNetwork(
+  name: string,
+  nodeCount: number,
+  retries: number,
+  handler: (nodeUrl: string, request: NodeTransportRequest) => NodeTransportResponse
+) {
+  const requestedNodeUrls: string[] = [];
+  const fullNode = [...Array(nodeCount).keys()].map(node => `http://${name}-${node}`);
+  const transport = new HandlerTransport(request => {
+    const nodeUrl = fullNode.find(url => request.url.startsWith(url))!;
+    requestedNodeUrls.push(nodeUrl.slice(nodeUrl.lastIndexOf('-') + 1));
+    return handler(nodeUrl, request);
+  });
+  const network: NetworkConfig = {
+    name,
+    fullNode,
+    trustScoreNode: `http://${name}-trustscore`,
+    api: `http://${name}-api`,
+    transport,
+    retry: { retries, minDelay: 1, maxDelay: 1 },
+  };
+  return { network, requestedNodeUrls };
+}
+
+function connectionRefused(): never {
+  throw Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+}
+
+describe('nodeUtils', () => {
+  describe('failover', () => {
+    it('tries every node once even without retries', async () => {
+      const { network, requestedNodeUrls } = createNetwork('failover-once', 3, 0, nodeUrl =>
+        nodeUrl.endsWith('2') ? balanceResponse : { status: 503, data: {} }
+      );
+
+      await nodeUtils.checkBalances(['x'], network);
+
+      assert.deepStrictEqual(requestedNodeUrls, ['0', '1', '2']);
+    });
+
+    it('sends the next calls to the healthy node first', async () => {
+      const { network, requestedNodeUrls } = createNetwork('failover-health', 2, 0, nodeUrl =>
+        nodeUrl.endsWith('1') ? balanceResponse : { status: 503, data: {} }
+      );
+
+      await nodeUtils.checkBalances(['x'], network);
+      await nodeUtils.checkBalances(['x'], network);
+
+      assert.deepStrictEqual(requestedNodeUrls, ['0', '1', '1']);
+    });
+
+    it('retries idempotent calls with the node closest to the end of its cooldown', async () => {
+      let failures = 3;
+      const { network, requestedNodeUrls } = createNetwork('failover-retry', 2, 3, () =>
+        failures-- > 0 ? { status: 503, data: {} } : balanceResponse
+      );
+
+      await nodeUtils.checkBalances(['x'], network);
+
+      assert.deepStrictEqual(requestedNodeUrls, ['0', '1', '0', '1']);
+    });
+
+    it('gives up after the retries with the node error', async () => {
+      const { network, requestedNodeUrls } = createNetwork('failover-unavailable', 2, 2, () => ({ status: 503, data: {} }));
+
+      await assert.rejects(nodeUtils.checkBalances(['x'], network), { status: 503 });
+      assert.strictEqual(requestedNodeUrls.length, 3);
+    });
+
+    it('does not repeat a non idempotent call a node may have received', async () => {
+      const { network, requestedNodeUrls } = createNetwork('failover-fee', 2, 2, () => ({ status: 503, data: {} }));
+
+      await assert.rejects(nodeUtils.getFullNodeFees('1', 'userHash', { r: '1', s: '1' }, network), { status: 503 });
+      assert.deepStrictEqual(requestedNodeUrls, ['0']);
+    });
+
+    it('moves a non idempotent call to the next node when the connection is refused', async () => {
+      const { network, requestedNodeUrls } = createNetwork('failover-refused', 2, 2, nodeUrl =>
+        nodeUrl.endsWith('0') ? connectionRefused() : { status: 500, data: { status: 'Error', message: 'Fee error' } }
+      );
+
+      await assert.rejects(nodeUtils.getFullNodeFees('1', 'userHash', { r: '1', s: '1' }, network), { status: 500 });
+      assert.deepStrictEqual(requestedNodeUrls, ['0', '1']);
+    });
+  });
+
+  describe('streamTransactionsHistory', () => {
+    const simulator = new NodeSimulator({ name: 'stream-history', autoConfirm: false });
+    const network = simulator.getNetworkConfig();
+    const historyRequests: string[][] = [];
+    simulator.getTransport().addRequestInterceptor(request => {
+      if (request.url.endsWith('/transaction/addressTransactions/batch')) historyRequests.push(request.data.addresses);
+      return request;
+    });
+    let addressHexes: string[];
+    let transactionHash: string;
+
+    before(async () => {
+      const { sender, receiver, transaction } = await createSignedTransaction(simulator);
+      addressHexes = [sender.getAddressHex(), receiver.getAddressHex()];
+      await nodeUtils.sendTransaction(transaction, network);
+      transactionHash = transaction.getHash();
+      simulator.confirmTransaction(transactionHash);
+    });
+
+    beforeEach(() => {
+      historyRequests.length = 0;
+    });
+
+    it('requests the addresses in chunks and yields each transaction once', async () => {
+      const transactions = [];
+      for await (const transaction of nodeUtils.streamTransactionsHistory(addressHexes, network, { chunkSize: 1 })) transactions.push(transaction);
+
+      assert.deepStrictEqual(historyRequests, [[addressHexes[0]], [addressHexes[1]]]);
+      assert.deepStrictEqual(
+        transactions.map(transaction => transaction.hash),
+        [transactionHash]
+      );
+      assert.strictEqual(transactions[0].status, 'confirmed');
+    });
+
+    it('skips the transactions not updated since the given time', async () => {
+      const transactionsMap = await nodeUtils.getTransactionsHistory(addressHexes, network, { since: Math.floor(Date.now() / 1000) + 60 });
+
+      assert.strictEqual(transactionsMap.size, 0);
+      assert.strictEqual(historyRequests.length, 1);
+    });
+  });
+});
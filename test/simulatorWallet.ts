@@ -0,0 +1,19 @@
+import { NodeSimulator, Wallet, transactionUtils } from '../src';
+
+// A wallet with a funded first address, and a signed transaction from it to its second address that was not sent yet
+export async function createSignedTransaction(simulator: NodeSimulator, seed = 'a'.repeat(64)) {
+  const network = simulator.getNetworkConfig();
+  const wallet = new Wallet({ seed, network });
+  const [sender, receiver] = await wallet.generateAddressesByIndexes([0, 1]);
+  simulator.setBalance(sender.getAddressHex(), '100');
+  await wallet.setAddress(sender);
+  const transaction = await transactionUtils.createTransaction({
+    wallet,
+    inputMap: new Map([[sender.getAddressHex(), '10']]),
+    feeAddress: sender.getAddressHex(),
+    destinationAddress: receiver.getAddressHex(),
+    network,
+  });
+  await transaction.signTransaction(wallet);
+  return { wallet, sender, receiver, transaction };
+}
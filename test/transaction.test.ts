@@ -0,0 +1,51 @@
+import assert from 'assert';
+import { NodeClient, NodeSimulator, Transaction } from '../src';
+import { createSignedTransaction } from './simulatorWallet';
+
+describe('Transaction', () => {
+  const simulator = new NodeSimulator({ name: 'transaction-json', autoConfirm: false });
+  const nodeClient = new NodeClient(simulator.getNetworkConfig());
+  let transaction: Transaction;
+
+  beforeEach(async () => {
+    ({ transaction } = await createSignedTransaction(simulator));
+  });
+
+  it('restores a signed transaction from its json', () => {
+    const json = JSON.stringify(transaction);
+
+    const restoredTransaction = Transaction.fromJSON(JSON.parse(json));
+
+    assert.strictEqual(JSON.stringify(restoredTransaction), json);
+    assert.strictEqual(restoredTransaction.getHash(), transaction.getHash());
+    assert.ok(restoredTransaction.verifySignatures().valid);
+  });
+
+  it('restores a transaction the node accepts', async () => {
+    const restoredTransaction = Transaction.fromJSON(JSON.parse(JSON.stringify(transaction)));
+
+    const response = await nodeClient.sendTransaction(restoredTransaction);
+
+    assert.strictEqual(response.status, 'Success');
+  });
+
+  it('rejects a json with a changed base transaction', () => {
+    const json = transaction.toJSON();
+    const inputIndex = json.baseTransactions.findIndex(baseTransaction => baseTransaction.amount.startsWith('-'));
+    json.baseTransactions[inputIndex] = { ...json.baseTransactions[inputIndex], amount: '-9' };
+
+    assert.throws(() => Transaction.fromJSON(json), /Invalid hash/);
+  });
+
+  it('restores a transaction from the node transaction data', async () => {
+    await nodeClient.sendTransaction(transaction);
+    simulator.confirmTransaction(transaction.getHash());
+    const transactionData = await nodeClient.getTransaction(transaction.getHash());
+
+    const restoredTransaction = Transaction.fromTransactionData(transactionData);
+
+    assert.strictEqual(restoredTransaction.getHash(), transaction.getHash());
+    assert.ok(restoredTransaction.verifySignatures().valid);
+    assert.strictEqual(restoredTransaction.getTransactionConsensusUpdateTime(), transactionData.transactionConsensusUpdateTime);
+  });
+});
@@ -0,0 +1,78 @@
+import assert from 'assert';
+import {
+  cryptoUtils,
+  transactionPackageUtils,
+  walletUtils,
+  IndexedAddress,
+  NodeClient,
+  NodeSimulator,
+  SigningType,
+  Wallet,
+  WatchOnlyWallet,
+  WatchOnlyWalletError,
+} from '../src';
+
+describe('WatchOnlyWallet', () => {
+  const seed = 'a'.repeat(64);
+  const simulator = new NodeSimulator({ name: 'watch-only-wallet' });
+  const network = simulator.getNetworkConfig();
+  let wallet: Wallet;
+  let addresses: IndexedAddress[];
+  let watchOnlyWallet: WatchOnlyWallet;
+
+  before(async () => {
+    wallet = new Wallet({ seed, network });
+    addresses = await wallet.generateAddressesByIndexes([0, 1, 2]);
+    simulator.setBalance(addresses[0].getAddressHex(), '100');
+    simulator.setBalance(addresses[1].getAddressHex(), '40');
+    await wallet.setAddress(addresses[0]);
+    await wallet.setAddress(addresses[1]);
+  });
+
+  beforeEach(() => {
+    const keyPair = cryptoUtils.generateKeyPairFromSeed(seed);
+    watchOnlyWallet = new WatchOnlyWallet({
+      publicHash: wallet.getPublicHash(),
+      addresses: [0, 1].map(index => ({ index, addressHex: addresses[index].getAddressHex() })),
+      requestSigner: async messageInBytes => cryptoUtils.signByteArrayMessage(messageInBytes, keyPair),
+      network,
+    });
+  });
+
+  it('tracks the balances of the imported addresses', async () => {
+    await watchOnlyWallet.autoDiscoverAddresses();
+
+    assert.strictEqual(watchOnlyWallet.getTotalBalance().balance.toString(), '140');
+    assert.strictEqual(watchOnlyWallet.canGenerateAddressByIndex(1), true);
+    assert.strictEqual(watchOnlyWallet.canGenerateAddressByIndex(2), false);
+  });
+
+  it('discovers only the imported addresses', async () => {
+    const { addresses: discoveredAddresses, cursor } = await walletUtils.discoverAddresses(watchOnlyWallet);
+
+    assert.deepStrictEqual(
+      discoveredAddresses.map(address => address.getIndex()),
+      [0, 1]
+    );
+    assert.strictEqual(cursor.nextIndex, 2);
+  });
+
+  it('can not sign or derive addresses', async () => {
+    await assert.rejects(watchOnlyWallet.signMessage(new Uint8Array(32), SigningType.BASE_TX), WatchOnlyWalletError);
+    await assert.rejects(watchOnlyWallet.generateAddressByIndex(2), WatchOnlyWalletError);
+  });
+
+  it('builds unsigned transactions for the wallet holding the keys to sign', async () => {
+    await watchOnlyWallet.autoDiscoverAddresses();
+    const { transaction } = await watchOnlyWallet.createTransaction({ to: addresses[2].getAddressHex(), amount: '50' });
+
+    assert.strictEqual(transaction.isSigned(), false);
+    await assert.rejects(transaction.signTransaction(watchOnlyWallet), WatchOnlyWalletError);
+
+    const transactionPackage = transactionPackageUtils.exportTransactionPackage(transaction, network);
+    const signedTransactionPackage = await transactionPackageUtils.signTransactionPackage(transactionPackage, { wallet });
+    const response = await transactionPackageUtils.submitTransactionPackage(signedTransactionPackage, new NodeClient(network));
+
+    assert.strictEqual(response.status, 'Success');
+  });
+});
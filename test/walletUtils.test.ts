@@ -0,0 +1,57 @@
+import assert from 'assert';
+import { walletUtils, AddressDiscoveryProgress, IndexedAddress, NodeSimulator, Wallet } from '../src';
+
+const getIndexes = (addresses: IndexedAddress[]) => addresses.map(address => address.getIndex());
+
+describe('walletUtils', () => {
+  describe('discoverAddresses', () => {
+    const seed = 'a'.repeat(64);
+    const simulator = new NodeSimulator({ name: 'address-discovery' });
+    const network = simulator.getNetworkConfig();
+
+    before(async () => {
+      const addresses = await new Wallet({ seed, network }).generateAddressesByIndexes([0, 1, 5]);
+      addresses.forEach(address => simulator.setBalance(address.getAddressHex(), '1'));
+    });
+
+    it('finds the used addresses until the gap limit', async () => {
+      const { addresses, cursor } = await walletUtils.discoverAddresses(new Wallet({ seed, network }), { gapLimit: 3, chunkSize: 2 });
+
+      assert.deepStrictEqual(getIndexes(addresses), [0, 1, 5]);
+      assert.deepStrictEqual(cursor, { nextIndex: 10, gap: 4 });
+    });
+
+    it('stops before a used address farther than the gap limit', async () => {
+      const addresses = await walletUtils.getAddressesOfWallet(new Wallet({ seed, network }), { gapLimit: 2 });
+
+      assert.deepStrictEqual(getIndexes(addresses), [0, 1]);
+    });
+
+    it('emits the progress with the cursor to resume from', async () => {
+      const wallet = new Wallet({ seed, network });
+      const progress: AddressDiscoveryProgress[] = [];
+      wallet.onDiscoveryProgress(discoveryProgress => progress.push(discoveryProgress));
+
+      await walletUtils.discoverAddresses(wallet, { gapLimit: 3, chunkSize: 4 });
+
+      assert.deepStrictEqual(
+        progress.map(({ addresses, cursor, done }) => ({ indexes: getIndexes(addresses), cursor, done })),
+        [
+          { indexes: [0, 1], cursor: { nextIndex: 4, gap: 2 }, done: false },
+          { indexes: [5], cursor: { nextIndex: 8, gap: 2 }, done: false },
+          { indexes: [], cursor: { nextIndex: 12, gap: 6 }, done: true },
+        ]
+      );
+    });
+
+    it('resumes from a cursor', async () => {
+      const { addresses } = await walletUtils.discoverAddresses(new Wallet({ seed, network }), {
+        gapLimit: 3,
+        chunkSize: 2,
+        cursor: { nextIndex: 4, gap: 2 },
+      });
+
+      assert.deepStrictEqual(getIndexes(addresses), [5]);
+    });
+  });
+});